@@ -1,11 +1,20 @@
 /**
  * Minimal "SMM2 Profile Maker" site in a single TypeScript file.
- * - No login
+ * - No account required (edit key cookie); optional password login
  * - Create profile (bio, 職人id, tags, top10)
  * - List & search
  * - View profile
+ * - Japanese / English UI (?lang=, cookie, or Accept-Language)
+ * - Atom feeds of new / updated makers (/feed.atom?sort=created&tag=...)
  *
- * Data is stored in-memory (resets on restart).
+ * Data is kept in memory and persisted under DATA_DIR
+ * (append-only journal by default, or the old profiles.json snapshot).
+ *
+ * Behind a reverse proxy set TRUST_PROXY to the number of proxy hops
+ * (defaults to 1 on Render), otherwise every client shares one IP for
+ * rate limits and report de-duplication.
+ *
+ * Admin CLI (backup / restore / export / import): node dist/index.js admin
  */
 
 import * as http from "http";
@@ -13,13 +22,22 @@ import { URL } from "url";
 import * as crypto from "crypto";
 import * as fs from "fs";
 import * as path from "path";
+import * as util from "util";
+import { Resvg } from "@resvg/resvg-js";
 
 type TopCourse = {
   title: string;
-  courseId: string; // e.g. ABC-123-DEF
+  courseId: string; // e.g. Y2T-XLV-YDF
   note?: string;
 };
 
+type ProfileReport = {
+  at: number;
+  reason: ReportReason;
+  comment: string;
+  reporter: string; // 通報した接続元 IP のハッシュ（同じ人の重複通報を弾く）
+};
+
 type Profile = {
   id: string;
   handle: string; // URL slug
@@ -31,33 +49,215 @@ type Profile = {
   createdAt: number;
   updatedAt: number;
   editSecret: string;
+  passwordHash?: string; // 任意。"scrypt$salt$hash"
+  oldHandles?: string[]; // 変更前の handle（/u/旧handle → 301 で新しいURLへ）。直近の MAX_OLD_HANDLES 件まで
+  hiddenAt?: number; // 管理者が非表示にした時刻。一覧・検索・プロフィールページから消える（データは残る）
+  hiddenReason?: string;
+  reports?: ProfileReport[]; // 訪問者からの通報（管理者が確認したら消す）
 };
 
 const PORT = process.env.PORT ? Number(process.env.PORT) : 3000;
 
+// OGP・canonical などの絶対URLに使う公開URL（末尾の / なし）
+const PUBLIC_BASE_URL = (
+  process.env.PUBLIC_BASE_URL || process.env.RENDER_EXTERNAL_URL || `http://localhost:${PORT}`
+).replace(/\/+$/, "");
+
 // In-memory "DB"
 const profiles = new Map<string, Profile>(); // key: handle
 
 // ---- Persistence (JSON file) ----
-function ensureWritableDir(preferred: string) {
+type DataDirInfo = {
+  dir: string;
+  preferred: string;
+  fellBack: boolean; // preferred に書けず ./data を使っている（再デプロイで消える可能性あり）
+  reason?: string;
+};
+
+function ensureWritableDir(preferred: string): DataDirInfo {
   try {
     fs.mkdirSync(preferred, { recursive: true });
     fs.accessSync(preferred, fs.constants.W_OK);
-    return preferred;
-  } catch {
+    return { dir: preferred, preferred, fellBack: false };
+  } catch (e: any) {
     const fallback = path.join(process.cwd(), "data");
     fs.mkdirSync(fallback, { recursive: true });
-    return fallback;
+    console.error(`DATA_DIR ${preferred} is not writable, falling back to ${fallback}`);
+    return { dir: fallback, preferred, fellBack: fallback !== preferred, reason: String(e?.message ?? e) };
   }
 }
 
-const DATA_DIR = ensureWritableDir(
+const DATA_DIR_INFO = ensureWritableDir(
   process.env.DATA_DIR || (process.env.RENDER ? "/var/data" : path.join(process.cwd(), "data"))
 );
+const DATA_DIR = DATA_DIR_INFO.dir;
+
+// journal（既定）: 1件ずつ追記して fsync。snapshot: profiles.json を丸ごと書き直す（以前の方式）
+const STORAGE_BACKEND = process.env.STORAGE_BACKEND === "snapshot" ? "snapshot" : "journal";
 
 const DATA_FILE = path.join(DATA_DIR, "profiles.json");
-// 書き込みをまとめる（連打で毎回書くと重い＆壊れやすい）
-let saveTimer: NodeJS.Timeout | null = null;
+const JOURNAL_FILE = path.join(DATA_DIR, "profiles.journal");
+
+// ---- Schema (versions & migrations) ----
+// v0: 素の配列（古い profiles.json）。項目が欠けていることがある
+// v1: { version, profiles } の形。全項目そろっている
+// v2: 職人ID・コースIDを ABC-DEF-GHJ の形に正規化済み
+const SCHEMA_VERSION = 2;
+
+// ディスクやダンプから読んだままの、形の保証されていないレコード
+type RawRecord = Record<string, unknown>;
+
+function isRecord(v: unknown): v is RawRecord {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+// MIGRATIONS[n] で v(n) → v(n+1)。形が変わったら末尾に足して SCHEMA_VERSION を上げる
+// 形が崩れたレコードはそのまま返し、validateProfile で弾く
+const MIGRATIONS: ((r: unknown) => unknown)[] = [
+  (r) => {
+    if (!isRecord(r)) return r;
+    const now = Date.now();
+    return {
+      ...r,
+      id: r.id ?? crypto.randomUUID(),
+      name: r.name ?? r.handle,
+      makerId: r.makerId ?? "",
+      bio: r.bio ?? "",
+      tags: r.tags ?? [],
+      top10: r.top10 ?? [],
+      createdAt: r.createdAt ?? r.updatedAt ?? now,
+      updatedAt: r.updatedAt ?? r.createdAt ?? now,
+      editSecret: r.editSecret ?? newEditSecret(),
+    };
+  },
+  (r) => {
+    if (!isRecord(r)) return r;
+    const fixId = (id: unknown) => {
+      if (typeof id !== "string") return id;
+      const parsed = parseSmm2Id(id);
+      return "id" in parsed ? parsed.id : id;
+    };
+    return {
+      ...r,
+      makerId: fixId(r.makerId),
+      top10: Array.isArray(r.top10)
+        ? r.top10.map((c: unknown) => (isRecord(c) ? { ...c, courseId: fixId(c.courseId) } : c))
+        : r.top10,
+    };
+  },
+];
+
+function validateTopCourse(c: unknown, at: string): string[] {
+  if (!isRecord(c)) return [`${at} is not an object`];
+  const errors: string[] = [];
+  if (typeof c.title !== "string") errors.push(`${at}.title must be a string`);
+  if (typeof c.courseId !== "string") errors.push(`${at}.courseId must be a string`);
+  if (c.note !== undefined && typeof c.note !== "string") errors.push(`${at}.note must be a string`);
+  return errors;
+}
+
+// 読み込んだデータが Profile の形になっているか。問題があれば理由を返す
+function validateProfile(r: unknown): string[] {
+  if (!isRecord(r)) return ["record is not an object"];
+
+  const errors: string[] = [];
+  const isString = (v: unknown) => typeof v === "string";
+  const isTime = (v: unknown) => typeof v === "number" && Number.isFinite(v);
+  const isStringList = (v: unknown) => Array.isArray(v) && v.every(isString);
+
+  if (!isString(r.id) || !r.id) errors.push("id must be a non-empty string");
+  if (!isString(r.handle) || !r.handle) errors.push("handle must be a non-empty string");
+  if (!isString(r.name)) errors.push("name must be a string");
+  if (!isString(r.makerId)) errors.push("makerId must be a string");
+  if (!isString(r.bio)) errors.push("bio must be a string");
+  if (!isStringList(r.tags)) errors.push("tags must be a list of strings");
+  if (!Array.isArray(r.top10)) errors.push("top10 must be a list");
+  else {
+    if (r.top10.length > 10) errors.push("top10 has more than 10 courses");
+    r.top10.forEach((c: unknown, i: number) => errors.push(...validateTopCourse(c, `top10[${i}]`)));
+  }
+  if (!isTime(r.createdAt)) errors.push("createdAt must be a number");
+  if (!isTime(r.updatedAt)) errors.push("updatedAt must be a number");
+  if (!isString(r.editSecret) || !r.editSecret) errors.push("editSecret must be a non-empty string");
+  if (r.passwordHash !== undefined && !isString(r.passwordHash)) errors.push("passwordHash must be a string");
+  if (r.oldHandles !== undefined && !isStringList(r.oldHandles)) errors.push("oldHandles must be a list of strings");
+  if (r.hiddenAt !== undefined && !isTime(r.hiddenAt)) errors.push("hiddenAt must be a number");
+  if (r.hiddenReason !== undefined && !isString(r.hiddenReason)) errors.push("hiddenReason must be a string");
+  if (r.reports !== undefined) {
+    if (!Array.isArray(r.reports)) errors.push("reports must be a list");
+    else {
+      r.reports.forEach((x: unknown, i: number) => {
+        if (!isRecord(x) || !isTime(x.at) || !isReportReason(x.reason) || !isString(x.comment) || !isString(x.reporter)) {
+          errors.push(`reports[${i}] is malformed`);
+        }
+      });
+    }
+  }
+  return errors;
+}
+
+type QuarantinedRecord = { index: number; errors: string[]; record: unknown };
+
+// 読めなかったレコードは捨てずに別ファイルへ退避して、理由を残す
+// kind はファイル名の頭。journal の壊れた行（record は元の文字列のまま）は "journal" で分ける
+function quarantineRecords(source: string, version: number, records: QuarantinedRecord[], kind = "profiles") {
+  const dir = path.join(DATA_DIR, "quarantine");
+  fs.mkdirSync(dir, { recursive: true });
+  const file = path.join(dir, `${kind}-${new Date().toISOString().replace(/[:.]/g, "-")}.json`);
+  const report = { quarantinedAt: new Date().toISOString(), source, version, records };
+  fs.writeFileSync(file, JSON.stringify(report, null, 2), "utf8");
+  console.error(`Quarantined ${records.length} ${kind} record(s) from ${source}: ${file}`);
+  for (const r of records) console.error(`  #${r.index}: ${r.errors.join("; ")}`);
+}
+
+// 古い版のデータを1段ずつ今の版まで上げて、検証に通ったものだけ返す
+// quarantine: false なら退避ファイルを書かずに警告だけ出す（読むだけの管理コマンド用）
+function upgradeProfiles(records: unknown[], version: number, source: string, quarantine = true): Profile[] {
+  if (!Number.isInteger(version) || version < 0 || version > SCHEMA_VERSION) {
+    throw new Error(`${source}: unsupported schema version ${version} (this server supports up to v${SCHEMA_VERSION})`);
+  }
+
+  const ok: Profile[] = [];
+  const bad: QuarantinedRecord[] = [];
+  const handles = new Set<string>();
+
+  records.forEach((record, index) => {
+    let r: unknown = record;
+    try {
+      for (let v = version; v < SCHEMA_VERSION; v++) r = MIGRATIONS[v](r);
+    } catch (e: any) {
+      bad.push({ index, errors: [`migration failed: ${String(e?.message ?? e)}`], record });
+      return;
+    }
+
+    const errors = validateProfile(r);
+    // 検証に通ったので Profile として扱える
+    const profile = r as Profile;
+    if (!errors.length && handles.has(profile.handle)) errors.push(`duplicate handle "${profile.handle}"`);
+    if (errors.length) {
+      bad.push({ index, errors, record });
+      return;
+    }
+    handles.add(profile.handle);
+    ok.push(profile);
+  });
+
+  if (bad.length && quarantine) quarantineRecords(source, version, bad);
+  else if (bad.length) console.error(`Skipped ${bad.length} invalid profile record(s) in ${source}`);
+  return ok;
+}
+
+// broken: JSON として読めなかった journal の行（compact で消える前に退避する）
+type StoredProfiles = { source: string; version: number; profiles: unknown[]; broken?: QuarantinedRecord[] };
+
+// profiles Map が本体で、store はその変更を永続化するだけ
+type ProfileStore = {
+  load(): StoredProfiles | null; // 何も保存されていなければ null
+  put(p: Profile): void;
+  remove(p: Profile): void;
+  flush(): void; // 溜まっている書き込みを今すぐ書く
+  compact(): void; // 今のメモリ上の状態だけを書き直す
+};
 
 function serializeProfiles(): Profile[] {
   return Array.from(profiles.values());
@@ -66,49 +266,462 @@ function serializeProfiles(): Profile[] {
 function hydrateProfiles(list: Profile[]) {
   profiles.clear();
   for (const p of list) {
-    if (!p?.handle) continue;
     profiles.set(p.handle, p);
   }
 }
 
+// 素の配列は v0、{ version, profiles } はその版
+function readSnapshot(file: string): StoredProfiles | null {
+  if (!fs.existsSync(file)) return null;
+  const data = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (Array.isArray(data)) return { source: file, version: 0, profiles: data };
+  if (data && typeof data === "object" && Array.isArray(data.profiles)) {
+    return { source: file, version: data.version, profiles: data.profiles };
+  }
+  throw new Error(`${file}: unrecognized file format`);
+}
+
+// rename などディレクトリの変更を確定させる（Windows ではディレクトリを fsync できないので諦める）
+function fsyncDir(dir: string) {
+  let fd: number | null = null;
+  try {
+    fd = fs.openSync(dir, "r");
+    fs.fsyncSync(fd);
+  } catch {
+    // 対応していない環境
+  } finally {
+    if (fd !== null) fs.closeSync(fd);
+  }
+}
+
 // atomic write: 一時ファイルに書いてから置き換える（途中で落ちても壊れにくい）
-function saveProfilesSoon() {
-  if (saveTimer) return;
-  saveTimer = setTimeout(() => {
-    saveTimer = null;
+function writeSnapshot(file: string) {
+  const tmp = file + ".tmp";
+  const envelope = { version: SCHEMA_VERSION, profiles: serializeProfiles() };
+  const json = JSON.stringify(envelope, null, 2);
+  fs.writeFileSync(tmp, json, "utf8");
+  fs.renameSync(tmp, file);
+}
+
+function createSnapshotStore(file: string): ProfileStore {
+  // 書き込みをまとめる（連打で毎回書くと重い＆壊れやすい）
+  let saveTimer: NodeJS.Timeout | null = null;
+
+  function saveSoon() {
+    if (saveTimer) return;
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      try {
+        writeSnapshot(file);
+      } catch (e) {
+        console.error("Failed to save profiles:", e);
+      }
+    }, 150); // 0.15秒まとめ
+  }
+
+  return {
+    load: () => readSnapshot(file),
+    put: saveSoon,
+    remove: saveSoon,
+    flush() {
+      if (!saveTimer) return;
+      clearTimeout(saveTimer);
+      saveTimer = null;
+      writeSnapshot(file);
+    },
+    compact: () => writeSnapshot(file),
+  };
+}
+
+// 1行1件の JSON Lines。後から書いた行が勝つ（id 単位）。
+// 先頭の meta 行に版を書く（meta 行の無い journal は v1）
+type JournalEntry =
+  | { op: "meta"; version: number }
+  | { op: "put"; profile: Profile }
+  | { op: "del"; id: string };
+
+const JOURNAL_COMPACT_EVERY = 1000; // 追記がこの行数を超えたら書き直す
+const JOURNAL_COMPACT_INTERVAL_MS = 1000 * 60 * 10;
+
+function createJournalStore(file: string, legacySnapshot: string): ProfileStore {
+  let fd: number | null = null;
+  let appended = 0; // 前回の compact 以降に追記した行数
+
+  function append(entry: JournalEntry) {
+    if (fd === null) {
+      fd = fs.openSync(file, "a");
+      // 新しく作ったファイルなら先頭に版を書く（meta 行の無い journal は v1 として読まれる）
+      if (fs.fstatSync(fd).size === 0) {
+        fs.writeSync(fd, JSON.stringify({ op: "meta", version: SCHEMA_VERSION } satisfies JournalEntry) + "\n");
+      }
+    }
+    fs.writeSync(fd, JSON.stringify(entry) + "\n");
+    fs.fsyncSync(fd); // 返った時点でディスクに載っている
+    if (++appended >= JOURNAL_COMPACT_EVERY) compact();
+  }
+
+  function compact() {
+    const tmp = file + ".tmp";
+    const out = fs.openSync(tmp, "w");
+    try {
+      fs.writeSync(out, JSON.stringify({ op: "meta", version: SCHEMA_VERSION } satisfies JournalEntry) + "\n");
+      for (const p of profiles.values()) {
+        fs.writeSync(out, JSON.stringify({ op: "put", profile: p } satisfies JournalEntry) + "\n");
+      }
+      fs.fsyncSync(out);
+    } finally {
+      fs.closeSync(out);
+    }
+    if (fd !== null) {
+      fs.closeSync(fd);
+      fd = null;
+    }
+    fs.renameSync(tmp, file);
+    fsyncDir(path.dirname(file)); // rename 自体もディスクに載せる
+    appended = 0;
+  }
+
+  setInterval(() => {
+    if (appended === 0) return;
     try {
-      const tmp = DATA_FILE + ".tmp";
-      const json = JSON.stringify(serializeProfiles(), null, 2);
-      fs.writeFileSync(tmp, json, "utf8");
-      fs.renameSync(tmp, DATA_FILE);
+      compact();
     } catch (e) {
-      console.error("Failed to save profiles:", e);
+      console.error("Failed to compact journal:", e);
     }
-  }, 150); // 0.15秒まとめ
+  }, JOURNAL_COMPACT_INTERVAL_MS).unref();
+
+  return {
+    load() {
+      // 初回：以前の profiles.json があればそれを引き継ぐ（起動時の compact で journal になる）
+      if (!fs.existsSync(file)) return readSnapshot(legacySnapshot);
+
+      let version = 1;
+      const byId = new Map<string, unknown>();
+      const unkeyed: unknown[] = []; // id の無い put は検証で弾かれるよう、そのまま渡す
+      const broken: QuarantinedRecord[] = [];
+      fs.readFileSync(file, "utf8")
+        .split("\n")
+        .forEach((line, i) => {
+          if (!line.trim()) return;
+          try {
+            const e = JSON.parse(line) as JournalEntry;
+            if (e.op === "meta") version = e.version;
+            else if (e.op === "put" && typeof e.profile?.id === "string") byId.set(e.profile.id, e.profile);
+            else if (e.op === "put") unkeyed.push(e.profile);
+            else if (e.op === "del") byId.delete(e.id);
+          } catch (e: any) {
+            // 書き込み途中で落ちた最後の行など
+            console.error(`Skipped broken journal line ${i + 1}`);
+            broken.push({ index: i + 1, errors: [`unparseable line: ${String(e?.message ?? e)}`], record: line });
+          }
+        });
+      return { source: file, version, profiles: [...byId.values(), ...unkeyed], broken };
+    },
+    put: (p) => append({ op: "put", profile: p }),
+    remove: (p) => append({ op: "del", id: p.id }),
+    flush() {}, // 毎回 fsync 済み
+    compact,
+  };
+}
+
+const store: ProfileStore =
+  STORAGE_BACKEND === "snapshot" ? createSnapshotStore(DATA_FILE) : createJournalStore(JOURNAL_FILE, DATA_FILE);
+
+// 書き込みのたびに検索インデックスも更新する
+function saveProfile(p: Profile) {
+  store.put(p);
+  indexProfile(p);
+}
+
+function removeProfile(p: Profile) {
+  store.remove(p);
+  unindexProfile(p.id);
+}
+
+// 読むだけ（compact しない）。管理 CLI はサーバが動いていても使えるようにこちらを使う
+function readProfilesFromStore(quarantine = true): Profile[] | null {
+  const stored = store.load();
+  if (!stored) return null;
+  if (stored.broken?.length && quarantine) quarantineRecords(stored.source, stored.version, stored.broken, "journal");
+  return upgradeProfiles(stored.profiles, stored.version, stored.source, quarantine);
 }
 
-function loadProfilesFromDisk() {
+// 読めないデータの上にサンプルを書いて壊さないよう、失敗したら起動しない
+function loadProfilesFromStore() {
   try {
-    if (!fs.existsSync(DATA_FILE)) return false;
-    const raw = fs.readFileSync(DATA_FILE, "utf8");
-    const list = JSON.parse(raw);
-    if (!Array.isArray(list)) return false;
+    const list = readProfilesFromStore();
+    if (!list) return false;
     hydrateProfiles(list);
+    store.compact();
     return true;
   } catch (e) {
     console.error("Failed to load profiles:", e);
-    return false;
+    process.exit(1);
+  }
+}
+
+// サーバが動いている間は pid を置いておき、管理 CLI が書き込みとぶつからないようにする。
+// 逆に管理 CLI が restore / import している間は lock を置き、その間はサーバを起動させない
+// （journal を書き直している最中にサーバが古いファイルへ追記すると、その変更が消える）
+const PID_FILE = path.join(DATA_DIR, "server.pid");
+const ADMIN_LOCK_FILE = path.join(DATA_DIR, "admin.lock");
+
+function runningServerPid(): number | null {
+  return livePid(PID_FILE);
+}
+
+function livePid(file: string): number | null {
+  try {
+    const pid = Number(fs.readFileSync(file, "utf8"));
+    if (!Number.isInteger(pid) || pid <= 0 || pid === process.pid) return null;
+    process.kill(pid, 0); // 生きているか確認するだけ
+    return pid;
+  } catch {
+    return null;
+  }
+}
+
+// ---- Sessions (password login) ----
+type Session = {
+  id: string; // 一覧・取り消し用の公開ID
+  tokenHash: string; // cookie の値そのものは保存しない
+  handle: string;
+  userAgent: string;
+  createdAt: number;
+  expiresAt: number;
+};
+
+const SESSION_TTL_MS = 1000 * 60 * 60 * 24 * 30; // 30日
+const SESSIONS_FILE = path.join(DATA_DIR, "sessions.json");
+const sessions = new Map<string, Session>(); // key: tokenHash
+let sessionSaveTimer: NodeJS.Timeout | null = null;
+
+function writeSessions() {
+  const tmp = SESSIONS_FILE + ".tmp";
+  fs.writeFileSync(tmp, JSON.stringify(Array.from(sessions.values()), null, 2), "utf8");
+  fs.renameSync(tmp, SESSIONS_FILE);
+}
+
+function saveSessionsSoon() {
+  if (sessionSaveTimer) return;
+  sessionSaveTimer = setTimeout(() => {
+    sessionSaveTimer = null;
+    try {
+      writeSessions();
+    } catch (e) {
+      console.error("Failed to save sessions:", e);
+    }
+  }, 150);
+}
+
+// 終了時用：待っている保存を今すぐ同期で書く
+function flushSessions() {
+  if (!sessionSaveTimer) return;
+  clearTimeout(sessionSaveTimer);
+  sessionSaveTimer = null;
+  writeSessions();
+}
+
+function loadSessionsFromDisk() {
+  try {
+    if (!fs.existsSync(SESSIONS_FILE)) return;
+    const list = JSON.parse(fs.readFileSync(SESSIONS_FILE, "utf8"));
+    if (!Array.isArray(list)) return;
+    const now = Date.now();
+    for (const s of list as Session[]) {
+      if (s?.tokenHash && s.expiresAt > now) sessions.set(s.tokenHash, s);
+    }
+  } catch (e) {
+    console.error("Failed to load sessions:", e);
+  }
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("base64url");
+}
+
+function createSession(handle: string, userAgent: string): string {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const now = Date.now();
+  const s: Session = {
+    id: crypto.randomBytes(9).toString("base64url"),
+    tokenHash: hashToken(token),
+    handle,
+    userAgent: userAgent.slice(0, 120),
+    createdAt: now,
+    expiresAt: now + SESSION_TTL_MS,
+  };
+  sessions.set(s.tokenHash, s);
+  saveSessionsSoon();
+  return token;
+}
+
+function findSession(token: string): Session | null {
+  if (!token) return null;
+  const s = sessions.get(hashToken(token));
+  if (!s) return null;
+  if (s.expiresAt <= Date.now()) {
+    sessions.delete(s.tokenHash);
+    saveSessionsSoon();
+    return null;
+  }
+  return s;
+}
+
+function sessionsFor(handle: string): Session[] {
+  const now = Date.now();
+  return Array.from(sessions.values())
+    .filter((s) => s.handle === handle && s.expiresAt > now)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// handle を渡すとそのプロフィールのセッションだけ、id も渡すとその1件だけ消す
+function revokeSessions(handle: string, id?: string) {
+  for (const s of Array.from(sessions.values())) {
+    if (s.handle === handle && (!id || s.id === id)) sessions.delete(s.tokenHash);
+  }
+  saveSessionsSoon();
+}
+
+// ---- Passwords (scrypt) ----
+const scryptAsync = util.promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const key = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString("base64url")}$${key.toString("base64url")}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltB64, keyB64] = stored.split("$");
+  if (scheme !== "scrypt" || !saltB64 || !keyB64) return false;
+  const expected = Buffer.from(keyB64, "base64url");
+  const actual = await scryptAsync(password, Buffer.from(saltB64, "base64url"), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+// ---- Request limits (body size / rate limit / CSRF) ----
+const MAX_BODY_BYTES = 64 * 1024; // フォームも JSON もこれで十分足りる
+
+class PayloadTooLargeError extends Error {
+  constructor() {
+    super(`request body exceeds ${MAX_BODY_BYTES} bytes`);
+  }
+}
+
+// 手前にいる信頼できるプロキシの段数。0 なら X-Forwarded-For は見ない
+// 未設定なら Render（RENDER が入っている）では 1、それ以外は 0。
+// プロキシ越しなのに 0 だと全員が同じ IP に見え、書き込み制限や通報の重複チェックがサイト全体で共有されてしまう
+// X-Forwarded-For はクライアントが好きに書けるので、信頼できるプロキシが付け足した右端側だけを使う
+const TRUST_PROXY = (() => {
+  const raw = (process.env.TRUST_PROXY ?? "").trim().toLowerCase();
+  if (!raw) return process.env.RENDER ? 1 : 0;
+  if (raw === "true") return 1;
+  const hops = Number(raw);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+})();
+
+let warnedUntrustedProxy = false;
+
+function clientIp(req: http.IncomingMessage): string {
+  const remote = req.socket.remoteAddress || "";
+  if (!TRUST_PROXY) {
+    if (req.headers["x-forwarded-for"] && !warnedUntrustedProxy) {
+      warnedUntrustedProxy = true;
+      console.warn("Got X-Forwarded-For but TRUST_PROXY is not set; if this server is behind a proxy, set TRUST_PROXY=1");
+    }
+    return remote;
+  }
+  const forwarded = String(req.headers["x-forwarded-for"] ?? "")
+    .split(",")
+    .map((x) => x.trim())
+    .filter(Boolean);
+  // 右から TRUST_PROXY 番目が、最初の信頼できるプロキシが見た接続元
+  return forwarded[forwarded.length - TRUST_PROXY] || remote;
+}
+
+// IP ごとのトークンバケット。capacity まで連続で使えて、refillMs ごとに1つ戻る
+type RateLimit = { capacity: number; refillMs: number };
+
+const RATE_LIMITS = {
+  write: { capacity: 30, refillMs: 2_000 }, // POST / PATCH 全般
+  create: { capacity: 5, refillMs: 5 * 60_000 }, // プロフィール作成（bot 対策で厳しめ）
+  adminLogin: { capacity: 5, refillMs: 60_000 }, // 管理トークンの総当たり対策
+  login: { capacity: 10, refillMs: 60_000 }, // パスワード・編集キーの総当たり対策（scrypt も重い）
+} satisfies Record<string, RateLimit>;
+
+type Bucket = { tokens: number; updatedAt: number };
+const buckets = new Map<string, Bucket>(); // 最後に使った順（古いものが先頭）
+const MAX_BUCKETS = 50_000;
+
+// 使えたら 0、使えなければ次に1つ戻るまでの秒数を返す
+function takeToken(kind: keyof typeof RATE_LIMITS, ip: string): number {
+  const limit: RateLimit = RATE_LIMITS[kind];
+  const key = `${kind}:${ip}`;
+  const now = Date.now();
+  const b = buckets.get(key) ?? { tokens: limit.capacity, updatedAt: now };
+  b.tokens = Math.min(limit.capacity, b.tokens + (now - b.updatedAt) / limit.refillMs);
+  b.updatedAt = now;
+  buckets.delete(key);
+  buckets.set(key, b);
+  // 数が増えすぎたら、しばらく使われていないものから捨てる
+  while (buckets.size > MAX_BUCKETS) buckets.delete(buckets.keys().next().value!);
+  if (b.tokens < 1) return Math.ceil(((1 - b.tokens) * limit.refillMs) / 1000);
+  b.tokens -= 1;
+  return 0;
+}
+
+// 満タンまで戻ったバケットは持っていても意味がないので捨てる
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, b] of buckets) {
+    const limit: RateLimit = RATE_LIMITS[key.slice(0, key.indexOf(":")) as keyof typeof RATE_LIMITS];
+    if (b.tokens + (now - b.updatedAt) / limit.refillMs >= limit.capacity) buckets.delete(key);
+  }
+}, 60_000).unref();
+
+// 複数台で動かすときは CSRF_SECRET を揃える（未設定なら起動ごとに作り直すので、再起動前に開いたフォームは送れなくなる）
+const CSRF_SECRET = process.env.CSRF_SECRET || crypto.randomBytes(32).toString("base64url");
+const CSRF_TTL_MS = 24 * 60 * 60 * 1000;
+
+// 訪問者ごとのランダムな id（cookie）。CSRF トークンの紐付けに使う
+function visitorId(req: http.IncomingMessage, res: http.ServerResponse): string {
+  let id = parseCookies(req)["mm_visitor"] ?? "";
+  if (!id) {
+    id = crypto.randomBytes(16).toString("base64url");
+    setCookie(res, "mm_visitor", id);
   }
+  return id;
+}
+
+function csrfSignature(visitor: string, issuedAt: string): string {
+  return crypto.createHmac("sha256", CSRF_SECRET).update(`${visitor}.${issuedAt}`).digest("base64url");
+}
+
+function csrfToken(req: http.IncomingMessage, res: http.ServerResponse): string {
+  const issuedAt = String(Date.now());
+  return `${issuedAt}.${csrfSignature(visitorId(req, res), issuedAt)}`;
 }
 
-// 起動時にディスクから復元。無ければサンプル投入（任意）
-const loaded = loadProfilesFromDisk();
-if (!loaded) {
-  seedExample(); // いらなければ消してOK
-  saveProfilesSoon(); // 初回のサンプルも保存しておく
+function isValidCsrf(req: http.IncomingMessage, token: string): boolean {
+  const visitor = parseCookies(req)["mm_visitor"] ?? "";
+  const [issuedAt, sig] = token.split(".");
+  if (!visitor || !issuedAt || !sig) return false;
+  if (!(Date.now() - Number(issuedAt) < CSRF_TTL_MS)) return false;
+  const expected = Buffer.from(csrfSignature(visitor, issuedAt));
+  const actual = Buffer.from(sig);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
 }
 
-function seedExample() {
+function csrfField(token: string): string {
+  return `<input type="hidden" name="csrf" value="${escapeHtml(token)}" />`;
+}
+
+function seedExample(): Profile {
   const now = Date.now();
 
   const p: Profile = {
@@ -135,8 +748,21 @@ function seedExample() {
   };
 
   profiles.set(p.handle, p);
+  return p;
+}
+
+// 表示名は i18n の report.<reason>
+const REPORT_REASONS = ["impersonation", "spam", "offensive", "other"] as const;
+
+type ReportReason = (typeof REPORT_REASONS)[number];
+
+function isReportReason(raw: unknown): raw is ReportReason {
+  return (REPORT_REASONS as readonly unknown[]).includes(raw);
 }
 
+// この人数から通報されたら、管理者の確認まで自動で非表示にする
+const REPORT_HIDE_THRESHOLD = Math.max(1, Number(process.env.REPORT_HIDE_THRESHOLD) || 3);
+
 const TAG_OPTIONS = [
   "演奏",
   "レール演奏",
@@ -160,6 +786,654 @@ const TAG_OPTIONS = [
 
 type TagOption = (typeof TAG_OPTIONS)[number];
 
+/** ---------- i18n ---------- */
+
+type Locale = "ja" | "en";
+
+const LOCALES: readonly Locale[] = ["ja", "en"];
+
+// 日付の表示に使う BCP 47 タグ
+const LOCALE_TAGS: Record<Locale, string> = { ja: "ja-JP", en: "en-US" };
+
+// {name} のような差し込みは t() の呼び出し側でエスケープ済みの値を渡す
+const MESSAGES_JA = {
+  "nav.new": "プロフィール作成",
+  "nav.makers": "職人一覧",
+  "nav.ranking": "ランキング",
+  "nav.edit": "編集",
+
+  "common.backToTop": "トップへ",
+  "common.backToList": "← 一覧へ戻る",
+  "common.makerId": "職人ID: {id}",
+  "common.none": "なし",
+  "common.untitled": "(未入力)",
+  "common.example": "例: {value}",
+
+  "error.title": "エラー",
+  "error.back": "戻る",
+  "error.notFound": "ページが見つかりません。",
+  "error.serverTitle": "サーバエラー",
+  "error.forbiddenTitle": "編集できません",
+  "error.forbidden": "権限がありません。",
+  "error.csrfTitle": "送信できません",
+  "error.csrf": "フォームの有効期限が切れたか、別のサイトから送信されました。ページを開き直してからもう一度送信してください。",
+  "error.rateLimitedTitle": "しばらくお待ちください",
+  "error.rateLimited": "短時間に送信が続いたため、一時的に受け付けを止めています。{sec}秒ほど待ってからもう一度お試しください。",
+  "error.tooLargeTitle": "送信内容が大きすぎます",
+  "error.tooLarge": "送信内容が大きすぎます。",
+  "error.nameRequired": "表示名が必要です。",
+  "error.makerIdRequired": "職人IDが必要です。",
+  "error.makerIdFormat": "職人IDの形式が正しくありません。例: {id}",
+  "error.makerIdIsCourse": "これはコースIDです。職人IDを入力してください。",
+  "error.courseIdFormat": "#{n}: コースIDの形式が正しくありません。例: {id}",
+  "error.courseIdIsMaker": "#{n}: これは職人IDです。コースIDを入力してください。",
+  "error.handleEmpty": "プロフィールURLには英数字を入れてください。",
+  "error.handleTaken": "そのプロフィールURLは既に使われています。",
+
+  "home.title": "トップ",
+  "home.intro": "プロフィールを作成して、あなたのお気に入りのコースを共有しましょう！",
+  "home.disclaimer": "このサイトは非公式のファンサイトです。任天堂株式会社とは一切関係ありません。",
+  "home.searchLabel": "名前・コース名・IDで職人を探す",
+  "home.searchPlaceholder": "例: ゲストさん",
+  "home.search": "検索",
+  "home.reset": "リセット",
+  "home.filtering": "絞り込み中:",
+  "home.clearFilter": "解除",
+  "home.tagsHeading": "タグから職人を探す",
+  "home.tagsHint": "(数字は使われているタグの数)",
+  "home.tagCount": "{count}人",
+  "home.noTags": "まだタグがありません。",
+  "home.makers": "職人一覧",
+  "home.empty": `まだプロフィールがありません。<a href="/new">作成</a>してみてください。`,
+
+  "sort.label": "並び順:",
+  "sort.updated": "更新が新しい順",
+  "sort.created": "登録が新しい順",
+  "sort.name": "名前順",
+  "sort.favorites": "お気に入りの多い順",
+  "pager.prev": "← 前へ",
+  "pager.next": "次へ →",
+
+  "makers.title": "職人一覧",
+  "makers.lead": "登録されている職人を{size}人ずつ表示しています。名前をクリックするとプロフィールに移動します。",
+  "makers.empty": `まだプロフィールがありません。<a href="/new">プロフィール作成</a>へ。`,
+
+  "form.name": "表示名（必須）",
+  "form.namePlaceholder": "例: マリオ / Mario",
+  "form.handle": "プロフィールURL（任意・英数字）",
+  "form.handlePlaceholder": "例: mario（空なら自動生成）",
+  "form.handleHint": "空なら表示名から自動生成します（英数字以外は自動で削除）",
+  "form.makerId": "職人ID（必須）",
+  "form.makerIdTitle": "例: {id}（英数字 3-3-3）",
+  "form.makerIdHint": "小文字OK。入力中に自動で {id} の形に整形します",
+  "form.bio": "自己紹介（任意）",
+  "form.bioPlaceholder": "例: スタンダードコースを中心に制作しています。演奏コースが好きです。",
+  "form.tags": "職人タグ（あなたのアートスタイルを設定しましょう）",
+  "form.tagHint": "※ 最大2つまで選べます",
+  "form.favorites": "お気に入りのコース",
+  "form.favoritesHint": "（10コースまで登録できます / 空でもOK）",
+  "form.courseTitle": "コース名",
+  "form.courseId": "コースID",
+  "form.courseNote": "ひとこと（任意）",
+  "form.courseNotePlaceholder": "例: 雪BGMと一本道。落ち着く雰囲気。",
+
+  "new.title": "プロフィール作成",
+  "new.lead": "プロフィールはいつでも編集できます。",
+  "new.submit": "作成する",
+  "new.alreadyCreatedTitle": "作成済み",
+  "new.alreadyCreated": "あなたは既にプロフィールを作成しています",
+  "new.editInstead": "新規作成ではなく、編集してください。",
+  "new.viewMine": "自分のプロフィールを見る",
+  "new.toEdit": "編集ページへ",
+
+  "profile.notFoundTitle": "見つかりません",
+  "profile.notFound": "プロフィールが見つかりません。",
+  "profile.updated": "更新: {date}",
+  "profile.tags": "職人タグ",
+  "profile.favorites": "{name}のお気に入りのコース",
+  "profile.noFavorites": "お気に入りのコースは未登録です。",
+  "profile.shareHint": "このURLをそのまま貼って名刺として使えます：",
+  "profile.cardImage": "名刺画像",
+  "profile.description": "{name}（職人ID {id}）のスーパーマリオメーカー2 プロフィール",
+  "profile.embed": "ブログなどに埋め込む",
+
+  "embed.viewProfile": "プロフィールを見る →",
+
+  "feed.updated": "更新された職人",
+  "feed.created": "新しい職人",
+
+  "report.summary": "通報",
+  "report.lead": "なりすましや不適切な内容を見つけたら教えてください。管理者が確認します。",
+  "report.reason": "理由",
+  "report.comment": "詳しく（任意）",
+  "report.commentPlaceholder": "例: この職人IDは別の人のものです",
+  "report.submit": "通報する",
+  "report.reasonRequired": "通報の理由を選んでください。",
+  "report.doneTitle": "通報しました",
+  "report.received": "通報を受け付けました",
+  "report.duplicate": "すでに通報を受け付けています",
+  "report.thanks": "ご協力ありがとうございます。管理者が内容を確認します。",
+  "report.impersonation": "なりすまし（他人の職人IDなど）",
+  "report.spam": "スパム・宣伝",
+  "report.offensive": "不適切な内容",
+  "report.other": "その他",
+
+  "edit.title": "プロフィール編集",
+  "edit.lead": "自分のプロフィールだけ編集できます。",
+  "edit.name": "表示名",
+  "edit.handle": "プロフィールURL（英数字）",
+  "edit.handleHint": "変更しても、今までのURL（/u/{handle}）は新しいURLに自動で転送されます",
+  "edit.makerId": "ID",
+  "edit.tags": "タグ（最大2つ）",
+  "edit.courseNote": "ひとこと",
+  "edit.submit": "更新する",
+  "edit.cancel": "キャンセル",
+  "edit.otherDevices": `別の端末でも編集したいときは <a href="/key">編集キー</a> を控えるか、パスワードを設定してください。`,
+  "edit.notOwner": `編集キーが見つかりません（この端末で作成していない可能性があります）。`,
+  "edit.notOwnerLinks": `<a href="/login">ログイン</a> / <a href="/claim">編集キーで引き継ぐ</a> / <a href="/new">新規作成</a>`,
+  "edit.sessions": "ログイン中の端末",
+  "edit.unknownDevice": "不明な端末",
+  "edit.since": "（{date}〜）",
+  "edit.thisDevice": "この端末",
+  "edit.revoke": "ログアウトさせる",
+  "edit.revokeAll": "すべての端末をログアウトさせる",
+  "edit.noSessions": "パスワードでログインしている端末はありません。",
+  "edit.data": "データ",
+  "edit.export": "データをダウンロード（JSON）",
+  "edit.delete": "プロフィールを削除する",
+  "edit.logout": "ログアウト",
+
+  "course.title": "コース",
+  "course.id": "コースID: {id}",
+  "course.favoritedBy": "このコースがお気に入りの職人",
+  "course.empty": "まだこのコースをお気に入りに登録した職人はいません。",
+  "course.description": "コースID {id}をお気に入りに登録している職人: {count}人",
+  "course.descriptionWithTitle": "コースID {id}「{title}」をお気に入りに登録している職人: {count}人",
+
+  "ranking.title": "コースランキング",
+  "ranking.lead": "みんなのお気に入りのコースを集計したランキングです。1位に選ばれると10点、10位だと1点で計算しています。",
+  "ranking.forTag": "（{tag}の職人）",
+  "ranking.filter": "職人タグで絞り込む",
+  "ranking.rank": "{n}位",
+  "ranking.score": "{score}pt / {count}人",
+  "ranking.more": "ほか{count}人",
+  "ranking.empty": "まだ集計できるコースがありません。",
+
+  "key.title": "編集キー",
+  "key.created": "プロフィールを作成しました！ 下の編集キーを必ず控えてください。",
+  "key.passwordUpdated": "パスワードを更新しました。",
+  "key.lead": `cookie を消したり別の端末（スマホ→PC など）に移ったときは、<a href="/claim">編集キーで引き継ぐ</a>からこのキーを入力すると編集できるようになります。他人には絶対に教えないでください。`,
+  "key.profileUrl": "プロフィールURL",
+  "key.download": "復元コードをダウンロード",
+  "key.showOnce": "このキーは今だけ表示しています。ページを離れると二度と表示されないので、今すぐ控えるか復元コードをダウンロードしてください。",
+  "key.hidden": "編集キーは作成時と作り直した直後に1度だけ表示します。控えていない場合は、下の「新しいキーを発行する」で作り直してください。",
+  "key.viewProfile": "プロフィールを見る",
+  "key.rotateHeading": "編集キーを作り直す",
+  "key.rotateLead": "キーが漏れたかもしれないときに使います。古いキーは使えなくなり、他の端末の編集権限も解除されます。",
+  "key.rotateConfirm": "編集キーを作り直しますか？古いキーは使えなくなります。",
+  "key.rotate": "新しいキーを発行する",
+  "key.passwordHeading": "パスワードでログイン（任意）",
+  "key.passwordLead": `パスワードを設定すると、<a href="/login">ログイン</a>からどの端末でも編集できます。`,
+  "key.passwordSet": "パスワードは設定済みです。変更すると、ログイン中の端末はすべてログアウトされます。",
+  "key.passwordUnset": "まだ設定されていません。",
+  "key.newPassword": "新しいパスワード（8文字以上）",
+  "key.passwordAgain": "もう一度",
+  "key.changePassword": "パスワードを変更する",
+  "key.setPassword": "パスワードを設定する",
+  "key.removePassword": "パスワードを削除する",
+  "key.passwordLength": "パスワードは8〜128文字にしてください。",
+  "key.passwordMismatch": "パスワードが一致しません。",
+
+  "recovery.title": "SMM2 Profile Maker 復元コード",
+  "recovery.howTo": "/claim を開いて handle と編集キーを入力すると、この端末で編集できるようになります。",
+
+  "claim.title": "編集キーで引き継ぐ",
+  "claim.lead": "作成時に控えた編集キー（復元コード）を入力すると、この端末でプロフィールを編集できるようになります。",
+  "claim.handle": "プロフィールURL（handle）",
+  "claim.submit": "引き継ぐ",
+  "claim.invalid": "handle か編集キーが違います。",
+
+  "login.title": "ログイン",
+  "login.lead": `パスワードを設定したプロフィールは、どの端末からでもログインして編集できます。パスワード未設定なら<a href="/claim">編集キーで引き継ぐ</a>を使ってください。`,
+  "login.password": "パスワード",
+  "login.invalid": "handle かパスワードが違います。",
+
+  "delete.title": "プロフィール削除",
+  "delete.lead": "プロフィール <strong>{name}</strong>（@{handle}）を削除します。削除すると元に戻せません。",
+  "delete.exportHint": `必要なら先に <a href="/export">データをダウンロード</a> しておいてください。`,
+  "delete.confirm": "確認のため、プロフィールURL（{handle}）を入力してください",
+  "delete.submit": "削除する",
+  "delete.mismatch": "入力したURLが一致しません。",
+  "delete.doneTitle": "削除しました",
+  "delete.done": "プロフィールを削除しました",
+  "delete.thanks": "ご利用ありがとうございました。",
+};
+
+type MessageKey = keyof typeof MESSAGES_JA;
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = {
+  ja: MESSAGES_JA,
+  en: {
+    "nav.new": "Create profile",
+    "nav.makers": "Makers",
+    "nav.ranking": "Ranking",
+    "nav.edit": "Edit",
+
+    "common.backToTop": "Back to top",
+    "common.backToList": "← Back to the list",
+    "common.makerId": "Maker ID: {id}",
+    "common.none": "None",
+    "common.untitled": "(untitled)",
+    "common.example": "e.g. {value}",
+
+    "error.title": "Error",
+    "error.back": "Back",
+    "error.notFound": "Page not found.",
+    "error.serverTitle": "Server error",
+    "error.forbiddenTitle": "Cannot edit",
+    "error.forbidden": "You do not have permission.",
+    "error.csrfTitle": "Could not submit",
+    "error.csrf": "The form has expired or was sent from another site. Please reload the page and try again.",
+    "error.rateLimitedTitle": "Please wait a moment",
+    "error.rateLimited": "Too many submissions in a short time. Please try again in about {sec} seconds.",
+    "error.tooLargeTitle": "Submission too large",
+    "error.tooLarge": "The submitted data is too large.",
+    "error.nameRequired": "A display name is required.",
+    "error.makerIdRequired": "A maker ID is required.",
+    "error.makerIdFormat": "The maker ID is not valid. Example: {id}",
+    "error.makerIdIsCourse": "This is a course ID. Please enter your maker ID.",
+    "error.courseIdFormat": "#{n}: The course ID is not valid. Example: {id}",
+    "error.courseIdIsMaker": "#{n}: This is a maker ID. Please enter a course ID.",
+    "error.handleEmpty": "The profile URL needs at least one letter or digit.",
+    "error.handleTaken": "That profile URL is already taken.",
+
+    "home.title": "Home",
+    "home.intro": "Create a profile and share your favorite courses!",
+    "home.disclaimer": "This is an unofficial fan site and is not affiliated with Nintendo Co., Ltd.",
+    "home.searchLabel": "Find makers by name, course or ID",
+    "home.searchPlaceholder": "e.g. Guest",
+    "home.search": "Search",
+    "home.reset": "Reset",
+    "home.filtering": "Filtered by:",
+    "home.clearFilter": "Clear",
+    "home.tagsHeading": "Browse makers by tag",
+    "home.tagsHint": "(number of makers using each tag)",
+    "home.tagCount": "{count} makers",
+    "home.noTags": "No tags yet.",
+    "home.makers": "Makers",
+    "home.empty": `No profiles yet. Why not <a href="/new">create one</a>?`,
+
+    "sort.label": "Sort:",
+    "sort.updated": "Recently updated",
+    "sort.created": "Newest",
+    "sort.name": "Name",
+    "sort.favorites": "Most favorites",
+    "pager.prev": "← Prev",
+    "pager.next": "Next →",
+
+    "makers.title": "Makers",
+    "makers.lead": "Registered makers, {size} per page. Click a name to open their profile.",
+    "makers.empty": `No profiles yet. <a href="/new">Create a profile</a>.`,
+
+    "form.name": "Display name (required)",
+    "form.namePlaceholder": "e.g. Mario",
+    "form.handle": "Profile URL (optional, letters and digits)",
+    "form.handlePlaceholder": "e.g. mario (generated if empty)",
+    "form.handleHint": "If empty, it is generated from your display name (other characters are removed)",
+    "form.makerId": "Maker ID (required)",
+    "form.makerIdTitle": "e.g. {id} (3-3-3 letters and digits)",
+    "form.makerIdHint": "Lowercase is fine. It is formatted as {id} while you type",
+    "form.bio": "About you (optional)",
+    "form.bioPlaceholder": "e.g. I mostly make standard courses. I love music levels.",
+    "form.tags": "Maker tags (pick your style)",
+    "form.tagHint": "* Up to 2 tags",
+    "form.favorites": "Favorite courses",
+    "form.favoritesHint": "(up to 10 courses / can be left empty)",
+    "form.courseTitle": "Course name",
+    "form.courseId": "Course ID",
+    "form.courseNote": "Comment (optional)",
+    "form.courseNotePlaceholder": "e.g. Snowy music and a straight path. Very relaxing.",
+
+    "new.title": "Create profile",
+    "new.lead": "You can edit your profile at any time.",
+    "new.submit": "Create",
+    "new.alreadyCreatedTitle": "Already created",
+    "new.alreadyCreated": "You have already created a profile",
+    "new.editInstead": "Please edit it instead of creating a new one.",
+    "new.viewMine": "View my profile",
+    "new.toEdit": "Go to the edit page",
+
+    "profile.notFoundTitle": "Not found",
+    "profile.notFound": "Profile not found.",
+    "profile.updated": "Updated: {date}",
+    "profile.tags": "Maker tags",
+    "profile.favorites": "{name}'s favorite courses",
+    "profile.noFavorites": "No favorite courses yet.",
+    "profile.shareHint": "Share this URL as your maker card:",
+    "profile.cardImage": "Card image",
+    "profile.description": "{name}'s Super Mario Maker 2 profile (Maker ID {id})",
+    "profile.embed": "Embed on your site",
+
+    "embed.viewProfile": "View profile →",
+
+    "feed.updated": "Recently updated makers",
+    "feed.created": "New makers",
+
+    "report.summary": "Report",
+    "report.lead": "Let us know about impersonation or inappropriate content. An admin will review it.",
+    "report.reason": "Reason",
+    "report.comment": "Details (optional)",
+    "report.commentPlaceholder": "e.g. This maker ID belongs to someone else",
+    "report.submit": "Send report",
+    "report.reasonRequired": "Please choose a reason for the report.",
+    "report.doneTitle": "Report sent",
+    "report.received": "Thanks, your report was received",
+    "report.duplicate": "You have already reported this profile",
+    "report.thanks": "Thank you for your help. An admin will review it.",
+    "report.impersonation": "Impersonation (someone else's maker ID, etc.)",
+    "report.spam": "Spam or advertising",
+    "report.offensive": "Inappropriate content",
+    "report.other": "Other",
+
+    "edit.title": "Edit profile",
+    "edit.lead": "You can only edit your own profile.",
+    "edit.name": "Display name",
+    "edit.handle": "Profile URL (letters and digits)",
+    "edit.handleHint": "If you change it, the old URL (/u/{handle}) redirects to the new one",
+    "edit.makerId": "Maker ID",
+    "edit.tags": "Tags (up to 2)",
+    "edit.courseNote": "Comment",
+    "edit.submit": "Save",
+    "edit.cancel": "Cancel",
+    "edit.otherDevices": `To edit from another device, keep your <a href="/key">edit key</a> or set a password.`,
+    "edit.notOwner": "No edit key found (this profile may not have been created on this device).",
+    "edit.notOwnerLinks": `<a href="/login">Log in</a> / <a href="/claim">Use an edit key</a> / <a href="/new">Create a profile</a>`,
+    "edit.sessions": "Logged-in devices",
+    "edit.unknownDevice": "Unknown device",
+    "edit.since": "(since {date})",
+    "edit.thisDevice": "This device",
+    "edit.revoke": "Log out",
+    "edit.revokeAll": "Log out all devices",
+    "edit.noSessions": "No devices are logged in with a password.",
+    "edit.data": "Data",
+    "edit.export": "Download data (JSON)",
+    "edit.delete": "Delete profile",
+    "edit.logout": "Log out",
+
+    "course.title": "Course",
+    "course.id": "Course ID: {id}",
+    "course.favoritedBy": "Makers who favorited this course",
+    "course.empty": "No makers have added this course to their favorites yet.",
+    "course.description": "{count} makers have course ID {id} in their favorites",
+    "course.descriptionWithTitle": "{count} makers have \"{title}\" (course ID {id}) in their favorites",
+
+    "ranking.title": "Course ranking",
+    "ranking.lead": "A ranking of everyone's favorite courses. A #1 pick is worth 10 points and a #10 pick is worth 1 point.",
+    "ranking.forTag": "(makers tagged {tag})",
+    "ranking.filter": "Filter by maker tag",
+    "ranking.rank": "#{n}",
+    "ranking.score": "{score} pts / {count} makers",
+    "ranking.more": "and {count} more",
+    "ranking.empty": "No courses to rank yet.",
+
+    "key.title": "Edit key",
+    "key.created": "Your profile has been created! Be sure to save the edit key below.",
+    "key.passwordUpdated": "Your password has been updated.",
+    "key.lead": `If you clear your cookies or switch devices (phone to PC, etc.), enter this key on <a href="/claim">Use an edit key</a> to edit again. Never share it with anyone.`,
+    "key.profileUrl": "Profile URL",
+    "key.download": "Download recovery code",
+    "key.showOnce": "This key is shown only now. It will not be shown again after you leave this page, so save it or download the recovery code.",
+    "key.hidden": "The edit key is shown only once, right after it is created or regenerated. If you did not save it, issue a new one below.",
+    "key.viewProfile": "View profile",
+    "key.rotateHeading": "Regenerate the edit key",
+    "key.rotateLead": "Use this if your key may have leaked. The old key stops working and other devices lose edit access.",
+    "key.rotateConfirm": "Regenerate the edit key? The old key will stop working.",
+    "key.rotate": "Issue a new key",
+    "key.passwordHeading": "Log in with a password (optional)",
+    "key.passwordLead": `With a password you can <a href="/login">log in</a> and edit from any device. `,
+    "key.passwordSet": "A password is set. Changing it logs out every logged-in device.",
+    "key.passwordUnset": "No password is set yet.",
+    "key.newPassword": "New password (at least 8 characters)",
+    "key.passwordAgain": "Confirm password",
+    "key.changePassword": "Change password",
+    "key.setPassword": "Set password",
+    "key.removePassword": "Remove password",
+    "key.passwordLength": "Passwords must be 8 to 128 characters.",
+    "key.passwordMismatch": "The passwords do not match.",
+
+    "recovery.title": "SMM2 Profile Maker recovery code",
+    "recovery.howTo": "Open /claim and enter the handle and edit key to edit from that device.",
+
+    "claim.title": "Use an edit key",
+    "claim.lead": "Enter the edit key (recovery code) you saved when creating your profile to edit it from this device.",
+    "claim.handle": "Profile URL (handle)",
+    "claim.submit": "Continue",
+    "claim.invalid": "The handle or edit key is incorrect.",
+
+    "login.title": "Log in",
+    "login.lead": `Profiles with a password can be edited from any device after logging in. If you have not set a password, <a href="/claim">use your edit key</a> instead.`,
+    "login.password": "Password",
+    "login.invalid": "The handle or password is incorrect.",
+
+    "delete.title": "Delete profile",
+    "delete.lead": "This deletes the profile <strong>{name}</strong> (@{handle}). This cannot be undone.",
+    "delete.exportHint": `If needed, <a href="/export">download your data</a> first.`,
+    "delete.confirm": "To confirm, enter your profile URL ({handle})",
+    "delete.submit": "Delete",
+    "delete.mismatch": "The URL you entered does not match.",
+    "delete.doneTitle": "Deleted",
+    "delete.done": "Your profile has been deleted",
+    "delete.thanks": "Thank you for using the site.",
+  },
+};
+
+// タグは日本語のまま保存し、表示だけ切り替える
+const TAG_LABELS_EN: Record<TagOption, string> = {
+  演奏: "Music",
+  レール演奏: "Track music",
+  TROLL: "Troll",
+  研究家: "Researcher",
+  ギミック: "Gimmick",
+  一画面: "Single screen",
+  スタンダード: "Standard",
+  みんバト: "Multiplayer Versus",
+  みんクリ: "Multiplayer Co-op",
+  スピードラン: "Speedrun",
+  高難易度: "High difficulty",
+  ドット絵: "Pixel art",
+  謎解き: "Puzzle",
+  テクニック: "Technical",
+  全自動: "Automatic",
+  タイムアタッカー: "Time attack",
+  ワールド: "Super World",
+  雰囲気: "Atmospheric",
+};
+
+function t(locale: Locale, key: MessageKey, vars: Record<string, string | number> = {}): string {
+  return MESSAGES[locale][key].replace(/\{(\w+)\}/g, (m, name) => (name in vars ? String(vars[name]) : m));
+}
+
+function tagLabel(tag: string, locale: Locale): string {
+  return locale === "en" ? TAG_LABELS_EN[tag as TagOption] ?? tag : tag;
+}
+
+function formatDate(ms: number, locale: Locale): string {
+  return new Date(ms).toLocaleDateString(LOCALE_TAGS[locale]);
+}
+
+function formatDateTime(ms: number, locale: Locale): string {
+  return new Date(ms).toLocaleString(LOCALE_TAGS[locale]);
+}
+
+function parseLocale(raw: string | null | undefined): Locale | null {
+  const lang = (raw ?? "").trim().toLowerCase().split("-")[0];
+  return (LOCALES as readonly string[]).includes(lang) ? (lang as Locale) : null;
+}
+
+// Accept-Language の q 値が高い順に、対応している言語を探す
+function preferredLocale(acceptLanguage: string): Locale {
+  const ranked = acceptLanguage
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.map((p) => /^\s*q=([\d.]+)\s*$/.exec(p)).find(Boolean);
+      return { locale: parseLocale(tag), q: q ? Number(q[1]) : 1 };
+    })
+    .filter((x) => x.locale && x.q > 0)
+    .sort((a, b) => b.q - a.q);
+  return ranked[0]?.locale ?? "ja";
+}
+
+// ?lang= > cookie（mm_lang）> Accept-Language の順
+// 全リクエストの最初に（try の外で）呼ぶので、どんな入力でも例外を出さないこと
+function requestLocale(req: http.IncomingMessage): Locale {
+  const url = req.url ?? "/";
+  const query = new URLSearchParams(url.includes("?") ? url.slice(url.indexOf("?") + 1) : "").get("lang");
+  return (
+    parseLocale(query) ??
+    parseLocale(parseCookies(req)["mm_lang"]) ??
+    preferredLocale(String(req.headers["accept-language"] ?? ""))
+  );
+}
+
+
+/** ---------- SMM2 IDs ---------- */
+
+// コースID・職人IDに使われる30文字（母音と Z は使われない）
+const SMM2_ID_CHARS = "0123456789BCDFGHJKLMNPQRSTVWXY";
+
+// 使われない文字 → 見た目の似た文字（よくある打ち間違い）
+const SMM2_ID_TYPOS: Record<string, string> = { O: "0", I: "1", Z: "2" };
+
+const EXAMPLE_MAKER_ID = "3PG-5VV-W5G";
+const EXAMPLE_COURSE_ID = "VJL-YYK-RLF";
+
+type Smm2IdKind = "maker" | "course";
+
+// 9文字を30進数として読む（末尾の文字が最上位）。
+// 上位5ビットは常に 0b01000、ビット13 が立っていれば職人ID
+function decodeSmm2Id(compact: string): Smm2IdKind | null {
+  if (compact.length !== 9) return null;
+  let v = 0;
+  for (let i = compact.length - 1; i >= 0; i--) {
+    const d = SMM2_ID_CHARS.indexOf(compact[i]);
+    if (d < 0) return null;
+    v = v * 30 + d;
+  }
+  if (Math.floor(v / 2 ** 40) !== 0b1000) return null;
+  return Math.floor(v / 2 ** 13) % 2 === 1 ? "maker" : "course";
+}
+
+// 全角・小文字・区切りの揺れ・URL への埋め込み・O/I の打ち間違いを吸収して ABC-DEF-GHJ の形にする
+function parseSmm2Id(input: string): { id: string; kind: Smm2IdKind } | { error: "format" | "invalid" } {
+  const text = input.normalize("NFKC").toUpperCase();
+  const m = /([0-9A-Z]{3})-([0-9A-Z]{3})-([0-9A-Z]{3})/.exec(text);
+  const compact = m ? m[1] + m[2] + m[3] : text.replace(/[^0-9A-Z]/g, "");
+  if (compact.length !== 9) return { error: "format" };
+
+  const fixed = compact.replace(/[OIZ]/g, (c) => SMM2_ID_TYPOS[c]);
+  const kind = decodeSmm2Id(fixed);
+  if (!kind) return { error: "invalid" };
+
+  return { id: `${fixed.slice(0, 3)}-${fixed.slice(3, 6)}-${fixed.slice(6, 9)}`, kind };
+}
+
+// 集計用：正しいIDなら整形済みの形に、古いデータなどで読めなければ大文字にしただけで返す
+function normalizeCourseId(input: string): string {
+  const r = parseSmm2Id(input);
+  return "id" in r ? r.id : input.trim().toUpperCase().slice(0, 20);
+}
+
+/** ---------- Search ---------- */
+
+// 全角/半角（NFKC）・大文字/小文字・カタカナ/ひらがなの違いを無視して比べる
+function normalizeForSearch(s: string): string {
+  return s
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[\u30a1-\u30f6]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0x60))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// 文字の2-gram（サロゲートペアは1文字として数える）
+function bigrams(text: string): Set<string> {
+  const chars = Array.from(text);
+  const out = new Set<string>();
+  for (let i = 0; i + 1 < chars.length; i++) out.add(chars[i] + chars[i + 1]);
+  return out;
+}
+
+// 検索対象のテキスト。IDは VJL-YYK-RLF と VJLYYKRLF のどちらでも引っかかるようにする
+function searchableText(p: Profile): string {
+  const ids = [p.makerId, ...p.top10.map((c) => c.courseId)].filter(Boolean);
+  const fields = [
+    p.name,
+    p.handle,
+    p.bio,
+    ...p.tags.flatMap((tag) => [tag, tagLabel(tag, "en")]),
+    ...p.top10.flatMap((c) => [c.title, c.note ?? ""]),
+    ...ids,
+    ...ids.map((id) => id.replace(/-/g, "")),
+  ];
+  // 項目をまたいだ2-gram が検索語に一致しないよう、入力に現れない文字で区切る
+  return fields.map(normalizeForSearch).join("\u0000");
+}
+
+// プロフィールごとの正規化済みテキストと、2-gram → プロフィールID の転置インデックス
+const searchDocs = new Map<string, string>();
+const searchPostings = new Map<string, Set<string>>();
+
+function unindexProfile(id: string) {
+  const text = searchDocs.get(id);
+  if (text === undefined) return;
+  for (const gram of bigrams(text)) {
+    const ids = searchPostings.get(gram);
+    ids?.delete(id);
+    if (ids && !ids.size) searchPostings.delete(gram);
+  }
+  searchDocs.delete(id);
+}
+
+function indexProfile(p: Profile) {
+  unindexProfile(p.id);
+  const text = searchableText(p);
+  searchDocs.set(p.id, text);
+  for (const gram of bigrams(text)) {
+    let ids = searchPostings.get(gram);
+    if (!ids) searchPostings.set(gram, (ids = new Set()));
+    ids.add(p.id);
+  }
+}
+
+function rebuildSearchIndex() {
+  searchDocs.clear();
+  searchPostings.clear();
+  for (const p of profiles.values()) indexProfile(p);
+}
+
+// スペース区切りの語をすべて含むプロフィールの ID（AND 検索）
+function searchIndex(q: string): Set<string> {
+  const terms = normalizeForSearch(q).split(" ").filter(Boolean);
+
+  // 2-gram の転置リストを絞り込んでから、候補だけ本文で確かめる（1文字の語は全件から確かめる）
+  let candidates: Set<string> | null = null;
+  for (const term of terms) {
+    for (const gram of bigrams(term)) {
+      const ids = searchPostings.get(gram) ?? new Set<string>();
+      const narrowed: Set<string> = candidates ? new Set(Array.from(candidates).filter((id) => ids.has(id))) : ids;
+      if (!narrowed.size) return new Set();
+      candidates = narrowed;
+    }
+  }
+
+  const hits = new Set<string>();
+  for (const id of candidates ?? searchDocs.keys()) {
+    const text = searchDocs.get(id) ?? "";
+    if (terms.every((term) => text.includes(term))) hits.add(id);
+  }
+  return hits;
+}
 
 /** ---------- Utilities ---------- */
 
@@ -171,7 +1445,7 @@ function makeUniqueHandle(preferred: string, fallbackName: string): string {
 
   let candidate = base;
   let n = 2;
-  while (profiles.has(candidate)) {
+  while (isHandleTaken(candidate)) {
     const suffix = `-${n}`;
     candidate = (base.slice(0, 32 - suffix.length) + suffix);
     n++;
@@ -184,6 +1458,54 @@ function makeUniqueHandle(preferred: string, fallbackName: string): string {
 }
 
 
+// 転送のために残す旧handle の数。これより古いものは解放して、他の人が使えるようにする
+// （何度も名前を変えて handle を買い占められないように）
+const MAX_OLD_HANDLES = 3;
+
+// 旧handle から今のプロフィールを探す（見つからない時だけ呼ぶので全件走査でOK）
+function findProfileByOldHandle(handle: string): Profile | undefined {
+  for (const p of profiles.values()) {
+    if (p.oldHandles?.includes(handle)) return p;
+  }
+  return undefined;
+}
+
+// 非表示（hiddenAt あり）を除いた、一般公開しているプロフィール
+function visibleProfiles(): Profile[] {
+  return Array.from(profiles.values()).filter((p) => !p.hiddenAt);
+}
+
+function resolveProfile(handle: string): Profile | undefined {
+  return profiles.get(handle) ?? findProfileByOldHandle(handle);
+}
+
+// 旧handle も予約済み扱い（共有済みのリンクが他人のページに飛ばないように）
+function isHandleTaken(handle: string, self?: Profile): boolean {
+  const owner = resolveProfile(handle);
+  return !!owner && owner !== self;
+}
+
+// 成功なら ""、失敗ならエラーメッセージ
+// handle を付け替える（保存は呼び出し側で、他の変更と合わせて1回だけ行う）
+function renameProfile(p: Profile, handleRaw: string, locale: Locale = "ja"): string {
+  const next = toHandle(handleRaw);
+  if (!next) return t(locale, "error.handleEmpty");
+  if (next === p.handle) return "";
+  if (isHandleTaken(next, p)) return t(locale, "error.handleTaken");
+
+  const prev = p.handle;
+  profiles.delete(prev);
+  p.oldHandles = [...(p.oldHandles ?? []).filter((h) => h !== next), prev].slice(-MAX_OLD_HANDLES);
+  p.handle = next;
+  profiles.set(next, p);
+
+  for (const s of sessions.values()) {
+    if (s.handle === prev) s.handle = next;
+  }
+  saveSessionsSoon();
+  return "";
+}
+
 function escapeHtml(s: string): string {
   return s
     .replaceAll("&", "&amp;")
@@ -215,16 +1537,6 @@ function parseSelectedTags(params: URLSearchParams): string[] {
 }
 
 
-function normalizeMakerId(input: string): string {
-
-  const cleaned = input.trim().toUpperCase().replace(/[^A-Z0-9]/g, "");
-  const a = cleaned.slice(0, 3);
-  const b = cleaned.slice(3, 6);
-  const c = cleaned.slice(6, 9);
-  const formatted = [a, b, c].filter(Boolean).join("-");
-  return formatted;
-}
-
 function newEditSecret(): string {
 
   return crypto.randomBytes(18).toString("base64url");
@@ -240,14 +1552,18 @@ function parseCookies(req: http.IncomingMessage): Record<string, string> {
   header.split(";").forEach((part) => {
     const [k, ...rest] = part.trim().split("=");
     if (!k) return;
-    out[k] = decodeURIComponent(rest.join("=") || "");
+    try {
+      out[k] = decodeURIComponent(rest.join("=") || "");
+    } catch {
+      // 壊れた値（%E0%A4%A など）は無かったことにする
+    }
   });
   return out;
 }
 
-function setCookie(res: http.ServerResponse, name: string, value: string) {
+function setCookie(res: http.ServerResponse, name: string, value: string, maxAgeSec = 60 * 60 * 24 * 365) {
 
-  const cookie = `${name}=${encodeURIComponent(value)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${60 * 60 * 24 * 365}`;
+  const cookie = `${name}=${encodeURIComponent(value)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAgeSec}`;
   const prev = res.getHeader("Set-Cookie");
   if (!prev) res.setHeader("Set-Cookie", cookie);
   else if (Array.isArray(prev)) res.setHeader("Set-Cookie", [...prev, cookie]);
@@ -256,55 +1572,365 @@ function setCookie(res: http.ServerResponse, name: string, value: string) {
 
 
 
-function isValidMakerId(input: string): boolean {
-  return /^[A-Z0-9]{3}-[A-Z0-9]{3}-[A-Z0-9]{3}$/.test(input.trim().toUpperCase());
-}
-
+// 作成・作り直しの後、/key でキーを1度だけ見せるための cookie の寿命
+const KEY_PENDING_MAX_AGE_SEC = 60 * 10;
 
-function normalizeCourseId(input: string): string {
-  return input.trim().toUpperCase().slice(0, 20);
+function clearCookie(res: http.ServerResponse, name: string) {
+  setCookie(res, name, "", 0);
 }
 
-async function readBody(req: http.IncomingMessage): Promise<string> {
-  return new Promise((resolve, reject) => {
-    let data = "";
-    req.on("data", (chunk) => (data += chunk));
-    req.on("end", () => resolve(data));
-    req.on("error", reject);
-  });
+// 編集キーの照合。matchesAdminToken と同じく、長さで差が出ないようハッシュ同士を比べる
+function matchesEditSecret(p: Profile, presented: string): boolean {
+  return crypto.timingSafeEqual(
+    Buffer.from(hashToken(presented), "base64url"),
+    Buffer.from(hashToken(p.editSecret), "base64url")
+  );
 }
 
-function sendHtml(res: http.ServerResponse, html: string, status = 200) {
-  res.writeHead(status, {
-    "Content-Type": "text/html; charset=utf-8",
-    "Cache-Control": "no-store",
-  });
-  res.end(html);
-}
+// cookie（mm_handle / mm_secret）＝編集キーを持っている本人のプロフィール
+function getKeyOwnedProfile(req: http.IncomingMessage): Profile | null {
+  const cookies = parseCookies(req);
+  const myHandle = cookies["mm_handle"];
+  const mySecret = cookies["mm_secret"];
+  if (!myHandle || !mySecret) return null;
 
-function sendJson(res: http.ServerResponse, obj: any, status = 200) {
-  res.writeHead(status, {
-    "Content-Type": "application/json; charset=utf-8",
-    "Cache-Control": "no-store",
-  });
-  res.end(JSON.stringify(obj, null, 2));
+  // handle 変更後も、他の端末に残っている旧handle の cookie で編集できるように
+  const p = resolveProfile(myHandle);
+  return p && matchesEditSecret(p, mySecret) ? p : null;
 }
 
-function notFound(res: http.ServerResponse) {
-  sendHtml(res, layout("404", `<p>ページが見つかりません。</p><p><a href="/">トップへ</a></p>`), 404);
+function getSession(req: http.IncomingMessage): Session | null {
+  return findSession(parseCookies(req)["mm_session"] ?? "");
 }
 
-function badRequest(res: http.ServerResponse, msg: string) {
-  sendHtml(res, layout("エラー", `<p style="color:#c00;">${escapeHtml(msg)}</p><p><a href="/new">戻る</a></p>`), 400);
+// 編集キー cookie か、パスワードログインのセッションで「本人」と認められるプロフィール
+function getOwnedProfile(req: http.IncomingMessage): Profile | null {
+  const p = getKeyOwnedProfile(req);
+  if (p) return p;
+
+  const s = getSession(req);
+  return s ? profiles.get(s.handle) ?? null : null;
 }
 
-function layout(title: string, body: string): string {
-  return `<!doctype html>
-<html lang="ja">
+// key: フォームの name（makerId, c_id_3 など）
+type FieldErrors = Record<string, string>;
+
+// フォーム（c_title_1〜c_title_10 など）から Top10 を組み立てる
+function parseTop10(params: URLSearchParams, locale: Locale = "ja"): { top10: TopCourse[]; errors: FieldErrors } {
+  const top10: TopCourse[] = [];
+  const errors: FieldErrors = {};
+  for (let i = 1; i <= 10; i++) {
+    const title = (params.get(`c_title_${i}`) ?? "").trim();
+    const courseIdRaw = (params.get(`c_id_${i}`) ?? "").trim();
+    const note = (params.get(`c_note_${i}`) ?? "").trim();
+
+    let courseId = "";
+    if (courseIdRaw) {
+      const r = parseSmm2Id(courseIdRaw);
+      if ("error" in r) errors[`c_id_${i}`] = t(locale, "error.courseIdFormat", { n: i, id: EXAMPLE_COURSE_ID });
+      else if (r.kind !== "course") errors[`c_id_${i}`] = t(locale, "error.courseIdIsMaker", { n: i });
+      else courseId = r.id;
+    }
+
+    if (title || courseIdRaw || note) {
+      top10.push({
+        title: title.slice(0, 60),
+        courseId,
+        note: note ? note.slice(0, 80) : undefined,
+      });
+    }
+  }
+  return { top10, errors };
+}
+
+type ProfileFields = Pick<Profile, "name" | "makerId" | "bio" | "tags" | "top10">;
+
+// 作成・編集フォームと API で共通のバリデーション。
+// error は最初のエラー（API・エラーページ用）、fieldErrors は項目ごと（フォームの再表示用）
+function parseProfileForm(
+  params: URLSearchParams,
+  locale: Locale = "ja"
+): { fields: ProfileFields } | { error: string; fieldErrors: FieldErrors } {
+  const name = (params.get("name") ?? "").trim();
+  const makerIdRaw = (params.get("makerId") ?? "").trim();
+  const bio = (params.get("bio") ?? "").trim();
+  const tags = parseSelectedTags(params);
+
+  const fieldErrors: FieldErrors = {};
+  if (!name) fieldErrors.name = t(locale, "error.nameRequired");
+
+  // ★ 小文字→大文字＆整形、O→0 などの打ち間違いも直す
+  let makerId = "";
+  if (!makerIdRaw) {
+    fieldErrors.makerId = t(locale, "error.makerIdRequired");
+  } else {
+    const r = parseSmm2Id(makerIdRaw);
+    if ("error" in r) fieldErrors.makerId = t(locale, "error.makerIdFormat", { id: EXAMPLE_MAKER_ID });
+    else if (r.kind !== "maker") fieldErrors.makerId = t(locale, "error.makerIdIsCourse");
+    else makerId = r.id;
+  }
+
+  const { top10, errors: courseErrors } = parseTop10(params, locale);
+  Object.assign(fieldErrors, courseErrors);
+
+  const firstError = Object.values(fieldErrors)[0];
+  if (firstError) return { error: firstError, fieldErrors };
+
+  return {
+    fields: {
+      name: name.slice(0, 40),
+      makerId,
+      bio: bio.slice(0, 300),
+      tags,
+      top10,
+    },
+  };
+}
+
+// エラーで再表示するときの入力値（Top10 はフォームの10枠そのまま）
+type ProfileDraft = ProfileFields & { handle: string };
+
+function draftFromForm(params: URLSearchParams): ProfileDraft {
+  return {
+    name: params.get("name") ?? "",
+    handle: params.get("handle") ?? "",
+    makerId: params.get("makerId") ?? "",
+    bio: params.get("bio") ?? "",
+    tags: parseSelectedTags(params),
+    top10: Array.from({ length: 10 }, (_, i) => ({
+      title: params.get(`c_title_${i + 1}`) ?? "",
+      courseId: params.get(`c_id_${i + 1}`) ?? "",
+      note: params.get(`c_note_${i + 1}`) ?? "",
+    })),
+  };
+}
+
+function draftFromProfile(p: Profile): ProfileDraft {
+  return { name: p.name, handle: p.handle, makerId: p.makerId, bio: p.bio, tags: p.tags, top10: p.top10 };
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (Number(req.headers["content-length"] ?? 0) > MAX_BODY_BYTES) {
+      return reject(new PayloadTooLargeError());
+    }
+    let data = "";
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        req.removeAllListeners("data");
+        return reject(new PayloadTooLargeError());
+      }
+      data += chunk;
+    });
+    req.on("end", () => resolve(data));
+    req.on("error", reject);
+  });
+}
+
+function sendHtml(res: http.ServerResponse, html: string, status = 200) {
+  res.writeHead(status, {
+    "Content-Type": "text/html; charset=utf-8",
+    "Cache-Control": "no-store",
+  });
+  res.end(html);
+}
+
+function sendJson(res: http.ServerResponse, obj: any, status = 200) {
+  res.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Cache-Control": "no-store",
+  });
+  res.end(JSON.stringify(obj, null, 2));
+}
+
+function notFound(res: http.ServerResponse, locale: Locale = "ja") {
+  sendHtml(
+    res,
+    layout("404", `<p>${t(locale, "error.notFound")}</p><p><a href="/">${t(locale, "common.backToTop")}</a></p>`, locale),
+    404
+  );
+}
+
+function forbidden(res: http.ServerResponse, locale: Locale = "ja") {
+  return sendHtml(res, layout(t(locale, "error.forbiddenTitle"), `<p>${t(locale, "error.forbidden")}</p>`, locale), 403);
+}
+
+function invalidCsrf(res: http.ServerResponse, locale: Locale = "ja") {
+  return sendHtml(
+    res,
+    layout(
+      t(locale, "error.csrfTitle"),
+      `<div class="card"><p>${t(locale, "error.csrf")}</p><p><a href="/">${t(locale, "common.backToTop")}</a></p></div>`,
+      locale
+    ),
+    403
+  );
+}
+
+function tooManyRequests(res: http.ServerResponse, api: boolean, retryAfterSec: number, locale: Locale = "ja") {
+  res.setHeader("Retry-After", String(retryAfterSec));
+  if (api) return sendJson(res, { error: "rate_limited", retryAfter: retryAfterSec }, 429);
+  return sendHtml(
+    res,
+    layout(t(locale, "error.rateLimitedTitle"), `<p>${t(locale, "error.rateLimited", { sec: retryAfterSec })}</p>`, locale),
+    429
+  );
+}
+
+function badRequest(res: http.ServerResponse, msg: string, locale: Locale = "ja") {
+  sendHtml(
+    res,
+    layout(
+      t(locale, "error.title"),
+      `<p style="color:#c00;">${escapeHtml(msg)}</p><p><a href="/new">${t(locale, "error.back")}</a></p>`,
+      locale
+    ),
+    400
+  );
+}
+
+// ページの JS はすべてここから配信する（インラインの script / onclick は CSP で禁止）
+const APP_JS = `(function () {
+  // 職人タグは最大2つまで
+  const boxes = Array.from(document.querySelectorAll('.taggrid input[name="tags"]'));
+  function enforce() {
+    const full = boxes.filter((b) => b.checked).length >= 2;
+    boxes.forEach((b) => { b.disabled = full && !b.checked; });
+  }
+  boxes.forEach((b) => b.addEventListener("change", enforce));
+  if (boxes.length) enforce();
+
+  // 職人IDを入力中に XXX-XXX-XXX の形に整える
+  const makerId = document.getElementById("makerIdInput");
+  function formatMakerId(raw) {
+    const cleaned = (raw || "").toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 9);
+    return [cleaned.slice(0, 3), cleaned.slice(3, 6), cleaned.slice(6, 9)].filter(Boolean).join("-");
+  }
+  if (makerId) {
+    makerId.addEventListener("input", () => {
+      const after = formatMakerId(makerId.value);
+      if (makerId.value !== after) makerId.value = after;
+    });
+    makerId.addEventListener("blur", () => { makerId.value = formatMakerId(makerId.value); });
+  }
+
+  document.querySelectorAll("[data-select-on-click]").forEach((el) => {
+    el.addEventListener("click", () => el.select());
+  });
+
+  // data-confirm: フォーム送信 / ボタン押下の前に確認する
+  document.querySelectorAll("form[data-confirm]").forEach((form) => {
+    form.addEventListener("submit", (e) => { if (!confirm(form.dataset.confirm)) e.preventDefault(); });
+  });
+  document.querySelectorAll("button[data-confirm]").forEach((button) => {
+    button.addEventListener("click", (e) => { if (!confirm(button.dataset.confirm)) e.preventDefault(); });
+  });
+})();
+`;
+
+// 中身が変わると URL も変わるので、ブラウザには長くキャッシュさせてよい
+const APP_JS_VERSION = crypto.createHash("sha256").update(APP_JS).digest("hex").slice(0, 12);
+
+// style 属性を多用しているので style-src だけは unsafe-inline を残す（スクリプトは自サイトの /assets/app.js のみ）
+const SECURITY_HEADERS: Record<string, string> = {
+  "Content-Security-Policy": [
+    "default-src 'none'",
+    "script-src 'self'",
+    "style-src 'unsafe-inline'",
+    "img-src 'self' data:",
+    "form-action 'self'",
+    "base-uri 'none'",
+    "frame-ancestors 'none'",
+  ].join("; "),
+  "X-Content-Type-Options": "nosniff",
+  "Referrer-Policy": "strict-origin-when-cross-origin",
+  "X-Frame-Options": "DENY",
+};
+
+function setSecurityHeaders(res: http.ServerResponse) {
+  for (const [name, value] of Object.entries(SECURITY_HEADERS)) res.setHeader(name, value);
+}
+
+function absoluteUrl(pathname: string): string {
+  return PUBLIC_BASE_URL + pathname;
+}
+
+// ページごとの OGP / Twitter Card 用の情報。path は canonical（/u/:handle など）
+type PageMeta = {
+  description?: string;
+  path?: string;
+  image?: string; // 1200x630 の画像のパス
+  type?: "website" | "profile";
+  oembed?: string; // oEmbed の問い合わせ先（/oembed?url=...）
+  feed?: string; // Atom フィードのパス
+  current?: string; // 言語切り替えで残す今のURL（path + query）。無ければ今のパスだけ
+};
+
+// 今見ているページのまま表示言語だけ切り替えるリンク
+function langSwitchUrl(current: string, lang: Locale): string {
+  const [path, query = ""] = current.split("?");
+  const params = new URLSearchParams(query);
+  params.set("lang", lang);
+  return `${path}?${params}`;
+}
+
+function metaTags(title: string, locale: Locale, meta: PageMeta): string {
+  const tags: string[] = [
+    `<meta property="og:site_name" content="SMM2 Profile Maker" />`,
+    `<meta property="og:title" content="${escapeHtml(title)}" />`,
+    `<meta property="og:type" content="${meta.type ?? "website"}" />`,
+    `<meta property="og:locale" content="${LOCALE_TAGS[locale].replace("-", "_")}" />`,
+    `<meta name="twitter:card" content="${meta.image ? "summary_large_image" : "summary"}" />`,
+    `<meta name="twitter:title" content="${escapeHtml(title)}" />`,
+  ];
+  if (meta.description) {
+    const d = escapeHtml(meta.description);
+    tags.push(
+      `<meta name="description" content="${d}" />`,
+      `<meta property="og:description" content="${d}" />`,
+      `<meta name="twitter:description" content="${d}" />`
+    );
+  }
+  if (meta.path) {
+    const url = escapeHtml(absoluteUrl(meta.path));
+    tags.push(`<link rel="canonical" href="${url}" />`, `<meta property="og:url" content="${url}" />`);
+  }
+  if (meta.image) {
+    const image = escapeHtml(absoluteUrl(meta.image));
+    tags.push(
+      `<meta property="og:image" content="${image}" />`,
+      `<meta property="og:image:width" content="${CARD_WIDTH}" />`,
+      `<meta property="og:image:height" content="${CARD_HEIGHT}" />`,
+      `<meta name="twitter:image" content="${image}" />`
+    );
+  }
+  if (meta.feed) {
+    tags.push(`<link rel="alternate" type="application/atom+xml" href="${escapeHtml(absoluteUrl(meta.feed))}" />`);
+  }
+  if (meta.oembed) {
+    tags.push(`<link rel="alternate" type="application/json+oembed" href="${escapeHtml(absoluteUrl(meta.oembed))}" />`);
+  }
+  return tags.join("\n");
+}
+
+// 改行をつめて、長ければ … で切る（説明文用）
+function excerpt(text: string, max: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const chars = Array.from(flat);
+  return chars.length > max ? chars.slice(0, max - 1).join("") + "…" : flat;
+}
+
+function layout(title: string, body: string, locale: Locale = "ja", meta: PageMeta = {}): string {
+  return `<!doctype html>
+<html lang="${locale}">
 <head>
 <meta charset="utf-8" />
 <meta name="viewport" content="width=device-width,initial-scale=1" />
 <title>${escapeHtml(title)} - SMM2 Profile Maker</title>
+${metaTags(title, locale, meta)}
+<script src="/assets/app.js?v=${APP_JS_VERSION}" defer></script>
 <style>
   :root{
     /* Mario Maker-ish soft theme */
@@ -416,6 +2042,12 @@ function layout(title: string, body: string): string {
     height: 16px;
   }
 
+  .fielderror{
+    font-size: 12px;
+    color: #c00;
+    margin-top: 4px;
+  }
+
   .taghint{
     font-size: 12px;
     color: var(--muted);
@@ -493,11 +2125,19 @@ function layout(title: string, body: string): string {
 <header>
   <div class="brand"><a href="/">SMM2 Profile Maker</a></div>
   <nav class="muted">
-    <a href="/new">プロフィール作成</a>
+    <a href="/new">${t(locale, "nav.new")}</a>
+    <span> · </span>
+    <a href="/makers">${t(locale, "nav.makers")}</a>
     <span> · </span>
-    <a href="/makers">職人一覧</a>
+    <a href="/ranking">${t(locale, "nav.ranking")}</a>
     <span> · </span>
-    <a href="/edit">編集</a>
+    <a href="/edit">${t(locale, "nav.edit")}</a>
+    <span> · </span>
+    ${
+      locale === "en"
+        ? `<a href="${escapeHtml(langSwitchUrl(meta.current ?? "", "ja"))}" lang="ja">日本語</a>`
+        : `<a href="${escapeHtml(langSwitchUrl(meta.current ?? "", "en"))}" lang="en">English</a>`
+    }
   </nav>
 </header>
 ${body}
@@ -507,49 +2147,230 @@ ${body}
 
 /** ---------- Pages ---------- */
 
-function homePage(q: string, tag: string): string {
-  const list = Array.from(profiles.values())
-    .sort((a, b) => b.updatedAt - a.updatedAt)
-    .filter((p) => {
-      const text = (p.name + " " + p.handle + " " + p.bio + " " + p.tags.join(" ")).toLowerCase();
-      const okQ = q ? text.includes(q.toLowerCase()) : true;
-      const okTag = tag ? p.tags.includes(tag) : true;
-      return okQ && okTag;
+// 正しいコースIDなら /c/:courseId へのリンク、古いデータなど読めないIDはそのまま表示
+function courseIdLink(courseId: string, target?: string): string {
+  const r = parseSmm2Id(courseId);
+  if ("error" in r || r.kind !== "course") return escapeHtml(courseId);
+  const attrs = target ? ` target="${target}" rel="noopener"` : "";
+  return `<a href="/c/${encodeURIComponent(r.id)}"${attrs}>${escapeHtml(courseId)}</a>`;
+}
+
+// 表示順の Top10（タイトルのあるコースを先に）。保存データは並べ替えないようコピーを返す。
+// 順位はどのページでもこの並びの位置から数える
+function rankedTop10(p: Profile): TopCourse[] {
+  return [...p.top10].sort((a, b) => Number(!a.title) - Number(!b.title));
+}
+
+type CourseFavorite = { profile: Profile; course: TopCourse; rank: number };
+
+// そのコースを Top10 に入れている職人（順位の高い順）
+function findCourseFavorites(courseId: string): CourseFavorite[] {
+  const out: CourseFavorite[] = [];
+  for (const p of visibleProfiles()) {
+    const top10 = rankedTop10(p);
+    const idx = top10.findIndex((c) => c.courseId && normalizeCourseId(c.courseId) === courseId);
+    if (idx >= 0) out.push({ profile: p, course: top10[idx], rank: idx + 1 });
+  }
+  return out.sort((a, b) => a.rank - b.rank || b.profile.updatedAt - a.profile.updatedAt);
+}
+
+// 職人によってコース名の書き方が違うので、一番多い書き方を代表にする
+function mostCommonTitle(courses: TopCourse[]): string {
+  const titleCounts = new Map<string, number>();
+  for (const c of courses) {
+    if (c.title) titleCounts.set(c.title, (titleCounts.get(c.title) ?? 0) + 1);
+  }
+  return Array.from(titleCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? "";
+}
+
+type RankedCourse = {
+  courseId: string;
+  title: string;
+  score: number;
+  makers: { handle: string; name: string; rank: number }[];
+};
+
+// 全職人の Top10 を集計（1位=10点 … 10位=1点）。tag を渡すとそのタグの職人だけで集計
+function buildCourseRanking(tag: string): RankedCourse[] {
+  const byId = new Map<string, { score: number; courses: TopCourse[]; makers: RankedCourse["makers"] }>();
+
+  for (const p of visibleProfiles()) {
+    if (tag && !p.tags.includes(tag)) continue;
+    // 同じコースを2回入れていても、1人1回（上の順位）だけ数える。findCourseFavorites と同じ
+    const seen = new Set<string>();
+    rankedTop10(p).forEach((c, idx) => {
+      const r = parseSmm2Id(c.courseId);
+      if ("error" in r || r.kind !== "course" || seen.has(r.id)) return;
+      seen.add(r.id);
+
+      const entry = byId.get(r.id) ?? { score: 0, courses: [], makers: [] };
+      entry.score += 10 - Math.min(idx, 9);
+      entry.courses.push(c);
+      entry.makers.push({ handle: p.handle, name: p.name, rank: idx + 1 });
+      byId.set(r.id, entry);
     });
+  }
 
-  // tag cloud
+  return Array.from(byId.entries())
+    .map(([courseId, e]) => ({
+      courseId,
+      title: mostCommonTitle(e.courses),
+      score: e.score,
+      makers: e.makers.sort((a, b) => a.rank - b.rank),
+    }))
+    .sort((a, b) => b.score - a.score || b.makers.length - a.makers.length || a.courseId.localeCompare(b.courseId));
+}
+
+// TAG_OPTIONS にあるタグだけ受け付ける（それ以外は絞り込みなし）
+function parseTagOption(raw: string | null): string {
+  return raw && (TAG_OPTIONS as readonly string[]).includes(raw) ? raw : "";
+}
+
+const PROFILE_SORTS = ["updated", "created", "name", "favorites"] as const;
+
+type ProfileSort = (typeof PROFILE_SORTS)[number];
+
+// HTML の一覧の1ページあたりの件数（API は limit で指定）
+const PAGE_SIZE = 20;
+
+// 一覧の条件（トップページ・職人一覧・API で共通）
+type ListQuery = { q: string; tag: string; sort: ProfileSort; page: number };
+
+function parseListQuery(params: URLSearchParams): ListQuery {
+  const sort = params.get("sort");
+  return {
+    q: params.get("q") ?? "",
+    tag: params.get("tag") ?? "",
+    sort: (PROFILE_SORTS as readonly (string | null)[]).includes(sort) ? (sort as ProfileSort) : "updated",
+    page: parsePositiveInt(params.get("page"), 1, 1_000_000),
+  };
+}
+
+function favoriteCount(p: Profile): number {
+  return p.top10.filter((c) => c.title || c.courseId).length;
+}
+
+// 同点のときは更新が新しい順
+function sortProfiles(list: Profile[], sort: ProfileSort, locale: Locale): Profile[] {
+  const byUpdated = (a: Profile, b: Profile) => b.updatedAt - a.updatedAt;
+  switch (sort) {
+    case "created":
+      return list.sort((a, b) => b.createdAt - a.createdAt || byUpdated(a, b));
+    case "name": {
+      const collator = new Intl.Collator(LOCALE_TAGS[locale], { sensitivity: "base", numeric: true });
+      return list.sort((a, b) => collator.compare(a.name, b.name) || byUpdated(a, b));
+    }
+    case "favorites":
+      return list.sort((a, b) => favoriteCount(b) - favoriteCount(a) || byUpdated(a, b));
+    default:
+      return list.sort(byUpdated);
+  }
+}
+
+type Page<T> = { items: T[]; page: number; limit: number; total: number; totalPages: number; hasMore: boolean };
+
+function paginate<T>(list: T[], page: number, limit: number): Page<T> {
+  const start = (page - 1) * limit;
+  return {
+    items: list.slice(start, start + limit),
+    page,
+    limit,
+    total: list.length,
+    totalPages: Math.max(1, Math.ceil(list.length / limit)),
+    hasMore: start + limit < list.length,
+  };
+}
+
+// 検索（トップページと API で共通）
+function searchProfiles(q: string, tag: string, sort: ProfileSort = "updated", locale: Locale = "ja"): Profile[] {
+  const hits = q.trim() ? searchIndex(q) : null;
+  const list = visibleProfiles().filter((p) => (!hits || hits.has(p.id)) && (!tag || p.tags.includes(tag)));
+  return sortProfiles(list, sort, locale);
+}
+
+// 今の条件（q, tag, sort など）を保ったまま一部だけ変えたURL。空の値は省く
+function listUrl(path: string, query: ListQuery, changes: Partial<ListQuery>): string {
+  const next = { ...query, ...changes };
+  const params = new URLSearchParams();
+  if (next.q) params.set("q", next.q);
+  if (next.tag) params.set("tag", next.tag);
+  if (next.sort !== "updated") params.set("sort", next.sort);
+  if (next.page > 1) params.set("page", String(next.page));
+  const qs = params.toString();
+  return qs ? `${path}?${qs}` : path;
+}
+
+function sortLinks(path: string, query: ListQuery, locale: Locale): string {
+  const links = PROFILE_SORTS.map((sort) =>
+    sort === query.sort
+      ? `<strong>${t(locale, `sort.${sort}`)}</strong>`
+      : `<a href="${escapeHtml(listUrl(path, query, { sort, page: 1 }))}">${t(locale, `sort.${sort}`)}</a>`
+  ).join(`<span> · </span>`);
+  return `<div class="muted small" style="margin:8px 0;">${t(locale, "sort.label")} ${links}</div>`;
+}
+
+// 前へ / 1 … 4 5 [6] 7 8 … 20 / 次へ
+function pagerLinks(path: string, query: ListQuery, page: Page<unknown>, locale: Locale): string {
+  if (page.totalPages <= 1) return "";
+  const link = (n: number, label: string) => `<a href="${escapeHtml(listUrl(path, query, { page: n }))}">${label}</a>`;
+
+  const numbers: string[] = [];
+  let last = 0;
+  for (let n = 1; n <= page.totalPages; n++) {
+    if (n !== 1 && n !== page.totalPages && Math.abs(n - page.page) > 2) continue;
+    if (n - last > 1) numbers.push(`<span class="muted">…</span>`);
+    numbers.push(n === page.page ? `<strong>${n}</strong>` : link(n, String(n)));
+    last = n;
+  }
+
+  return `<nav class="pager" style="display:flex; gap:10px; flex-wrap:wrap; margin:16px 0;">
+    ${page.page > 1 ? link(Math.min(page.page - 1, page.totalPages), t(locale, "pager.prev")) : ""}
+    ${numbers.join("")}
+    ${page.hasMore ? link(page.page + 1, t(locale, "pager.next")) : ""}
+  </nav>`;
+}
+
+// tag cloud 用の集計（多い順）
+function countTags(): [string, number][] {
   const tagCounts = new Map<string, number>();
-  for (const p of profiles.values()) {
+  for (const p of visibleProfiles()) {
     for (const t of p.tags) tagCounts.set(t, (tagCounts.get(t) ?? 0) + 1);
   }
-  const tagsSorted = Array.from(tagCounts.entries())
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 24);
+  return Array.from(tagCounts.entries()).sort((a, b) => b[1] - a[1]);
+}
+
+function homePage(query: ListQuery, locale: Locale): string {
+  const { q, tag } = query;
+  const list = searchProfiles(q, tag, query.sort, locale);
+  const page = paginate(list, query.page, PAGE_SIZE);
+
+  // tag cloud
+  const tagsSorted = countTags().slice(0, 24);
 
   const tagButtons = tagsSorted
-    .map(([t, c]) => {
-      const active = tag === t;
-      const href = active ? `/?q=${encodeURIComponent(q)}` : `/?q=${encodeURIComponent(q)}&tag=${encodeURIComponent(t)}`;
-      return `<a class="tag" href="${href}" title="${escapeHtml(String(c))}人">${escapeHtml(t)} (${c})</a>`;
+    .map(([name, c]) => {
+      const active = tag === name;
+      const href = escapeHtml(listUrl("/", query, { tag: active ? "" : name, page: 1 }));
+      return `<a class="tag" href="${href}" title="${t(locale, "home.tagCount", { count: c })}">${escapeHtml(tagLabel(name, locale))} (${c})</a>`;
     })
     .join("");
 
-  const cards = list
+  const cards = page.items
     .map((p) => {
-      const top = p.top10[0];
+      const top = rankedTop10(p)[0];
       return `<div class="card">
         <div style="display:flex; justify-content:space-between; gap:10px; align-items:flex-start;">
           <div>
             <div><strong><a href="/u/${encodeURIComponent(p.handle)}">${escapeHtml(p.name)}</a></strong> <span class="muted">@${escapeHtml(p.handle)}</span></div>
-            <div class="muted small">職人ID: ${escapeHtml(p.makerId)}</div>
+            <div class="muted small">${t(locale, "common.makerId", { id: escapeHtml(p.makerId) })}</div>
           </div>
-          <div class="muted small">${new Date(p.updatedAt).toLocaleDateString("ja-JP")}</div>
+          <div class="muted small">${formatDate(p.updatedAt, locale)}</div>
         </div>
         <div style="margin-top:8px;">${escapeHtml(p.bio)}</div>
-        <div class="tags">${p.tags.map((t) => `<span class="tag">${escapeHtml(t)}</span>`).join("")}</div>
+        <div class="tags">${p.tags.map((name) => `<span class="tag">${escapeHtml(tagLabel(name, locale))}</span>`).join("")}</div>
         ${
           top
-            ? `<div class="muted small" style="margin-top:10px;">Top1: ${escapeHtml(top.title)} <span class="copy">(${escapeHtml(
+            ? `<div class="muted small" style="margin-top:10px;">Top1: ${escapeHtml(top.title)} <span class="copy">(${courseIdLink(
                 top.courseId
               )})</span></div>`
             : ""
@@ -558,11 +2379,11 @@ function homePage(q: string, tag: string): string {
     })
     .join("");
 
-  const into = `<p class="muted"> プロフィールを作成して、あなたのお気に入りのコースを共有しましょう！</p>`;
-  const info = `<p class="muted"> このサイトは非公式のファンサイトです。任天堂株式会社とは一切関係ありません。</p>`;
+  const into = `<p class="muted"> ${t(locale, "home.intro")}</p>`;
+  const info = `<p class="muted"> ${t(locale, "home.disclaimer")}</p>`;
 
   return layout(
-  "トップ",
+  t(locale, "home.title"),
   `
 
   ${into}
@@ -571,17 +2392,19 @@ function homePage(q: string, tag: string): string {
     <form method="GET" action="/">
       <div class="row">
         <div>
-          <label>名前から職人を探す</label>
-          <input name="q" value="${escapeHtml(q)}" placeholder="例: ゲストさん" />
+          <label>${t(locale, "home.searchLabel")}</label>
+          <input name="q" value="${escapeHtml(q)}" placeholder="${t(locale, "home.searchPlaceholder")}" />
         </div>
       </div>
+      ${tag ? `<input type="hidden" name="tag" value="${escapeHtml(tag)}" />` : ""}
+      ${query.sort !== "updated" ? `<input type="hidden" name="sort" value="${query.sort}" />` : ""}
 
       <div style="margin-top:12px;">
-        <button type="submit">検索</button>
-        <a class="muted" style="margin-left:10px;" href="/">リセット</a>
+        <button type="submit">${t(locale, "home.search")}</button>
+        <a class="muted" style="margin-left:10px;" href="/">${t(locale, "home.reset")}</a>
         ${
           tag
-            ? `<span class="muted small" style="margin-left:12px;">絞り込み中: <strong>${escapeHtml(tag)}</strong> <a href="/?q=${encodeURIComponent(q)}" class="muted" style="margin-left:6px;">解除</a></span>`
+            ? `<span class="muted small" style="margin-left:12px;">${t(locale, "home.filtering")} <strong>${escapeHtml(tagLabel(tag, locale))}</strong> <a href="${escapeHtml(listUrl("/", query, { tag: "", page: 1 }))}" class="muted" style="margin-left:6px;">${t(locale, "home.clearFilter")}</a></span>`
             : ``
         }
       </div>
@@ -589,26 +2412,31 @@ function homePage(q: string, tag: string): string {
 
     <hr style="opacity:.22; margin:16px 0;" />
 
-    <div><strong>タグから職人を探す</strong> <span class="muted small">(数字は使われているタグの数)</span></div>
+    <div><strong>${t(locale, "home.tagsHeading")}</strong> <span class="muted small">${t(locale, "home.tagsHint")}</span></div>
     <div class="tags" style="margin-top:10px;">
-      ${tagButtons || `<span class="muted">まだタグがありません。</span>`}
+      ${tagButtons || `<span class="muted">${t(locale, "home.noTags")}</span>`}
     </div>
   </div>
 
-  <h2 style="margin-top:18px;">職人一覧 <span class="muted small">(${list.length})</span></h2>
-  ${cards || `<p class="muted">まだプロフィールがありません。<a href="/new">作成</a>してみてください。</p>`}
+  <h2 style="margin-top:18px;">${t(locale, "home.makers")} <span class="muted small">(${list.length})</span></h2>
+  ${sortLinks("/", query, locale)}
+  ${cards || `<p class="muted">${t(locale, "home.empty")}</p>`}
+  ${pagerLinks("/", query, page, locale)}
   ${info}
-  `
+  `,
+  locale,
+  {
+    description: t(locale, "home.intro"),
+    feed: tag ? `/feed.atom?tag=${encodeURIComponent(tag)}` : "/feed.atom",
+    current: listUrl("/", query, {}),
+  }
   );
 }
 
-function makersPage(): string {
-  const list = Array.from(profiles.values()).sort((a, b) => {
-    // 新しい順
-    return b.updatedAt - a.updatedAt;
-  });
+function makersPage(query: ListQuery, locale: Locale): string {
+  const page = paginate(sortProfiles(visibleProfiles(), query.sort, locale), query.page, PAGE_SIZE);
 
-  const items = list
+  const items = page.items
     .map((p) => {
       return `<div class="card">
         <div style="display:flex; justify-content:space-between; gap:10px; align-items:flex-start;">
@@ -617,161 +2445,152 @@ function makersPage(): string {
               <strong><a href="/u/${encodeURIComponent(p.handle)}">${escapeHtml(p.name)}</a></strong>
               <span class="muted"> @${escapeHtml(p.handle)}</span>
             </div>
-            <div class="muted small">職人ID: ${escapeHtml(p.makerId)}</div>
+            <div class="muted small">${t(locale, "common.makerId", { id: escapeHtml(p.makerId) })}</div>
           </div>
-          <div class="muted small">${new Date(p.updatedAt).toLocaleDateString("ja-JP")}</div>
+          <div class="muted small">${formatDate(p.updatedAt, locale)}</div>
         </div>
         <div style="margin-top:8px;">${escapeHtml(p.bio || "")}</div>
         <div class="tags" style="margin-top:10px;">
-          ${p.tags.map((t) => `<a class="tag" href="/?tag=${encodeURIComponent(t)}">${escapeHtml(t)}</a>`).join("")}
+          ${p.tags.map((name) => `<a class="tag" href="/?tag=${encodeURIComponent(name)}">${escapeHtml(tagLabel(name, locale))}</a>`).join("")}
         </div>
       </div>`;
     })
     .join("");
 
   return layout(
-    "職人一覧",
+    t(locale, "makers.title"),
     `
-<h1 style="margin-top:0;">職人一覧 <span class="muted small">(${list.length})</span></h1>
-<p class="muted">登録されている職人をすべて表示しています。名前をクリックするとプロフィールに移動します。</p>
-${items || `<p class="muted">まだプロフィールがありません。<a href="/new">プロフィール作成</a>へ。</p>`}
-`
+<h1 style="margin-top:0;">${t(locale, "makers.title")} <span class="muted small">(${page.total})</span></h1>
+<p class="muted">${t(locale, "makers.lead", { size: PAGE_SIZE })}</p>
+${sortLinks("/makers", query, locale)}
+${items || `<p class="muted">${t(locale, "makers.empty")}</p>`}
+${pagerLinks("/makers", query, page, locale)}
+`,
+    locale,
+    { current: listUrl("/makers", query, {}) }
   );
 }
 
 
-function newProfilePage(): string {
+function fieldError(errors: FieldErrors, key: string): string {
+  return errors[key] ? `<div class="fielderror">${escapeHtml(errors[key])}</div>` : "";
+}
+
+const EMPTY_DRAFT: ProfileDraft = { name: "", handle: "", makerId: "", bio: "", tags: [], top10: [] };
+
+function newProfilePage(
+  csrf: string,
+  locale: Locale,
+  d: ProfileDraft = EMPTY_DRAFT,
+  errors: FieldErrors = {}
+): string {
   return layout(
-    "プロフィール作成",
+    t(locale, "new.title"),
     `
 <div class="card">
-  <p class="muted">プロフィールはいつでも編集できます。</p>
+  <p class="muted">${t(locale, "new.lead")}</p>
   <form method="POST" action="/new">
-    <label>表示名（必須）</label>
-    <input name="name" required maxlength="40" placeholder="例: マリオ / Mario" />
+    ${csrfField(csrf)}
+    <label>${t(locale, "form.name")}</label>
+    <input name="name" required maxlength="40" value="${escapeHtml(d.name)}" placeholder="${t(locale, "form.namePlaceholder")}" />
+    ${fieldError(errors, "name")}
 
-    <label>プロフィールURL（任意・英数字）</label>
-    <input name="handle" maxlength="32" placeholder="例: mario（空なら自動生成）" />
-    <div class="small muted">空なら表示名から自動生成します（英数字以外は自動で削除）</div>
+    <label>${t(locale, "form.handle")}</label>
+    <input name="handle" maxlength="32" value="${escapeHtml(d.handle)}" placeholder="${t(locale, "form.handlePlaceholder")}" />
+    <div class="small muted">${t(locale, "form.handleHint")}</div>
 
-    <label>職人ID（必須）</label>
+    <label>${t(locale, "form.makerId")}</label>
     <input
       id="makerIdInput"
       name="makerId"
+      value="${escapeHtml(d.makerId)}"
       required
       maxlength="11"
-      placeholder="例: ABC-123-DEF"
+      placeholder="${t(locale, "common.example", { value: EXAMPLE_MAKER_ID })}"
       inputmode="text"
       autocomplete="off"
       autocapitalize="characters"
       style="text-transform: uppercase;"
       pattern="[A-Za-z0-9]{3}-[A-Za-z0-9]{3}-[A-Za-z0-9]{3}"
-      title="例: ABC-123-DEF（英大文字/数字 3-3-3）"
+      title="${t(locale, "form.makerIdTitle", { id: EXAMPLE_MAKER_ID })}"
     />
-    <div class="small muted">小文字OK。入力中に自動で ABC-123-DEF の形に整形します</div>
+    <div class="small muted">${t(locale, "form.makerIdHint", { id: EXAMPLE_MAKER_ID })}</div>
+    ${fieldError(errors, "makerId")}
 
-    <label>自己紹介（任意）</label>
-    <textarea name="bio" maxlength="300" placeholder="例: スタンダードコースを中心に制作しています。演奏コースが好きです。"></textarea>
+    <label>${t(locale, "form.bio")}</label>
+    <textarea name="bio" maxlength="300" placeholder="${t(locale, "form.bioPlaceholder")}">${escapeHtml(d.bio)}</textarea>
 
-    <label>職人タグ（あなたのアートスタイルを設定しましょう）</label>
+    <label>${t(locale, "form.tags")}</label>
     <div class="taggrid">
-      ${TAG_OPTIONS.map(t => `
+      ${TAG_OPTIONS.map(tag => `
         <label class="tagcheck">
-          <input type="checkbox" name="tags" value="${escapeHtml(t)}" />
-          <span>${escapeHtml(t)}</span>
+          <input type="checkbox" name="tags" value="${escapeHtml(tag)}" ${d.tags.includes(tag) ? "checked" : ""}/>
+          <span>${escapeHtml(tagLabel(tag, locale))}</span>
         </label>
       `).join("")}
     </div>
-    <div class="taghint">※ 最大2つまで選べます</div>
-
-    <script>
-      (function () {
-        const boxes = Array.from(document.querySelectorAll('input[name="tags"]'));
-        function enforce(){
-          const checked = boxes.filter(b => b.checked);
-          if (checked.length >= 2){
-            boxes.forEach(b => { if (!b.checked) b.disabled = true; });
-          }else{
-            boxes.forEach(b => { b.disabled = false; });
-          }
-        }
-        boxes.forEach(b => b.addEventListener("change", enforce));
-        enforce();
-      })();
-    </script>
+    <div class="taghint">${t(locale, "form.tagHint")}</div>
 
     <hr style="opacity:.3; margin:16px 0;" />
-    <div><strong>お気に入りのコース</strong> <span class="muted small">（10コースまで登録できます / 空でもOK）</span></div>
+    <div><strong>${t(locale, "form.favorites")}</strong> <span class="muted small">${t(locale, "form.favoritesHint")}</span></div>
 
     ${Array.from({ length: 10 })
       .map((_, i) => {
         const n = i + 1;
+        const c = d.top10[i] ?? { title: "", courseId: "", note: "" };
         return `
         <div class="card" style="margin-top:10px;">
           <div class="muted small">#${n}</div>
-          <label>コース名</label>
-          <input name="c_title_${n}" maxlength="60" placeholder="例: Snow Night Walk" />
-          <label>コースID</label>
-          <input name="c_id_${n}" maxlength="20" placeholder="例: ABC-123-DEF" />
-          <label>ひとこと（任意）</label>
-          <input name="c_note_${n}" maxlength="80" placeholder="例: 雪BGMと一本道。落ち着く雰囲気。" />
+          <label>${t(locale, "form.courseTitle")}</label>
+          <input name="c_title_${n}" maxlength="60" value="${escapeHtml(c.title)}" placeholder="${t(locale, "common.example", { value: "Snow Night Walk" })}" />
+          <label>${t(locale, "form.courseId")}</label>
+          <input name="c_id_${n}" maxlength="20" value="${escapeHtml(c.courseId)}" placeholder="${t(locale, "common.example", { value: EXAMPLE_COURSE_ID })}" />
+          ${fieldError(errors, `c_id_${n}`)}
+          <label>${t(locale, "form.courseNote")}</label>
+          <input name="c_note_${n}" maxlength="80" value="${escapeHtml(c.note ?? "")}" placeholder="${t(locale, "form.courseNotePlaceholder")}" />
         </div>`;
       })
       .join("")}
 
     <div style="margin-top:14px;">
-      <button type="submit">作成する</button>
+      <button type="submit">${t(locale, "new.submit")}</button>
     </div>
 
-    <script>
-      (function () {
-        const el = document.getElementById("makerIdInput");
-        if (!el) return;
-
-        function formatMakerId(raw) {
-          const cleaned = (raw || "").toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 9);
-          const a = cleaned.slice(0, 3);
-          const b = cleaned.slice(3, 6);
-          const c = cleaned.slice(6, 9);
-          return [a, b, c].filter(Boolean).join("-");
-        }
-
-        el.addEventListener("input", () => {
-          const before = el.value;
-          const after = formatMakerId(before);
-          if (before !== after) el.value = after;
-        });
-
-        el.addEventListener("blur", () => {
-          el.value = formatMakerId(el.value);
-        });
-      })();
-    </script>
-
   </form>
 </div>
-`
+`,
+    locale
   );
 }
 
 
-function profilePage(handle: string): string {
-  const p = profiles.get(handle);
-  if (!p) return layout("見つかりません", `<p>プロフィールが見つかりません。<a href="/">トップへ</a></p>`);
-
-  const top10 = p.top10
-    .sort((a, b) => (a.title && !b.title ? -1 : 0))
+// プロフィールページと埋め込みで共通の Top10 の <li>
+function top10Items(p: Profile, locale: Locale, linkTarget?: string): string {
+  return rankedTop10(p)
     .map((c, idx) => {
       const rank = idx + 1;
       return `<li>
-        <strong>#${rank} ${escapeHtml(c.title || "(未入力)")}</strong><br/>
+        <strong>#${rank} ${escapeHtml(c.title || t(locale, "common.untitled"))}</strong><br/>
         <div class="sub">
-          <div class="copy">ID: ${escapeHtml(c.courseId || "-")}</div>
+          <div class="copy">ID: ${c.courseId ? courseIdLink(c.courseId, linkTarget) : "-"}</div>
           ${c.note ? `<div class="muted small">${escapeHtml(c.note)}</div>` : ""}
         </div>
       </li>`;
     })
     .join("");
+}
+
+// 存在しない・非表示のプロフィール（404 で返す）
+function profileNotFoundPage(locale: Locale): string {
+  return layout(
+    t(locale, "profile.notFoundTitle"),
+    `<p>${t(locale, "profile.notFound")}<a href="/">${t(locale, "common.backToTop")}</a></p>`,
+    locale
+  );
+}
+
+function profilePage(p: Profile, locale: Locale, csrf: string): string {
+  const top10 = top10Items(p, locale);
 
   return layout(
     p.name,
@@ -781,321 +2600,2185 @@ function profilePage(handle: string): string {
     <div>
       <h1 style="margin:0;">${escapeHtml(p.name)}</h1>
       <div class="muted">@${escapeHtml(p.handle)}</div>
-      <div class="muted small" style="margin-top:4px;">職人ID: <span class="copy">${escapeHtml(p.makerId)}</span></div>
+      <div class="muted small" style="margin-top:4px;">${t(locale, "common.makerId", { id: `<span class="copy">${escapeHtml(p.makerId)}</span>` })}</div>
     </div>
-    <div class="muted small">更新: ${new Date(p.updatedAt).toLocaleString("ja-JP")}</div>
+    <div class="muted small">${t(locale, "profile.updated", { date: formatDateTime(p.updatedAt, locale) })}</div>
   </div>
 
-  <p>${p.bio ? escapeHtml(p.bio) : `<span class="muted">なし</span>`}</p>
+  <p>${p.bio ? escapeHtml(p.bio) : `<span class="muted">${t(locale, "common.none")}</span>`}</p>
 
-  <h3>職人タグ</h3>
+  <h3>${t(locale, "profile.tags")}</h3>
   <div class="tags">
-    ${p.tags.length ? p.tags.map((t) => `<a class="tag" href="/?tag=${encodeURIComponent(t)}">${escapeHtml(t)}</a>`).join("") : `<span class="muted">なし</span>`}
+    ${p.tags.length ? p.tags.map((tag) => `<a class="tag" href="/?tag=${encodeURIComponent(tag)}">${escapeHtml(tagLabel(tag, locale))}</a>`).join("") : `<span class="muted">${t(locale, "common.none")}</span>`}
   </div>
 
-  <h3 style="margin-top:16px;">${escapeHtml(p.name)}のお気に入りのコース</h3>
+  <h3 style="margin-top:16px;">${t(locale, "profile.favorites", { name: escapeHtml(p.name) })}</h3>
   ${
     p.top10.some((c) => c.title || c.courseId)
       ? `<ol class="top10">${top10}</ol>`
-      : `<p class="muted">お気に入りのコースは未登録です。</p>`
+      : `<p class="muted">${t(locale, "profile.noFavorites")}</p>`
   }
 
   <hr style="opacity:.3; margin:16px 0;" />
-  <p class="muted small">このURLをそのまま貼って名刺として使えます： <span class="copy">/u/${escapeHtml(p.handle)}</span></p>
+  <p class="muted small">${t(locale, "profile.shareHint")} <span class="copy">${escapeHtml(absoluteUrl(`/u/${encodeURIComponent(p.handle)}`))}</span></p>
+  <p class="muted small">${t(locale, "profile.cardImage")}: <a href="/u/${encodeURIComponent(p.handle)}/card.png">PNG</a> / <a href="/u/${encodeURIComponent(p.handle)}/card.svg">SVG</a></p>
+  <details class="muted small">
+    <summary>${t(locale, "profile.embed")}</summary>
+    <input readonly value="${escapeHtml(embedIframe(p, "light", EMBED_WIDTH, EMBED_HEIGHT))}" data-select-on-click />
+  </details>
 </div>
 
-<p><a href="/">← 一覧へ戻る</a></p>
-`
+<details class="muted small" style="margin:10px 0;">
+  <summary>${t(locale, "report.summary")}</summary>
+  <div class="card">
+    <p>${t(locale, "report.lead")}</p>
+    <form method="POST" action="/u/${encodeURIComponent(p.handle)}/report">
+      ${csrfField(csrf)}
+      <label>${t(locale, "report.reason")}</label>
+      ${REPORT_REASONS.map(
+        (reason, i) =>
+          `<label class="tagcheck" style="margin-right:8px;"><input type="radio" name="reason" value="${reason}" ${i === 0 ? "checked" : ""}/> <span>${t(locale, `report.${reason}`)}</span></label>`
+      ).join("")}
+      <label>${t(locale, "report.comment")}</label>
+      <textarea name="comment" maxlength="300" placeholder="${t(locale, "report.commentPlaceholder")}"></textarea>
+      <div style="margin-top:12px;">
+        <button type="submit">${t(locale, "report.submit")}</button>
+      </div>
+    </form>
+  </div>
+</details>
+
+<p><a href="/">${t(locale, "common.backToList")}</a></p>
+`,
+    locale,
+    {
+      description: p.bio ? excerpt(p.bio, 120) : t(locale, "profile.description", { name: p.name, id: p.makerId }),
+      path: `/u/${encodeURIComponent(p.handle)}`,
+      image: `/u/${encodeURIComponent(p.handle)}/card.png`,
+      type: "profile",
+      oembed: `/oembed?url=${encodeURIComponent(absoluteUrl(`/u/${encodeURIComponent(p.handle)}`))}`,
+    }
   );
 }
 
-/** ---------- Server ---------- */
-
-const server = http.createServer(async (req, res) => {
-  try {
-    const method = req.method ?? "GET";
-    const u = new URL(req.url ?? "/", `http://localhost:${PORT}`);
-    const pathname = u.pathname;
-
-    // Basic routing
-    if (method === "GET" && pathname === "/") {
-      const q = u.searchParams.get("q") ?? "";
-      const tag = u.searchParams.get("tag") ?? "";
-      return sendHtml(res, homePage(q, tag));
-    }
+function coursePage(courseId: string, locale: Locale): string {
+  const favorites = findCourseFavorites(courseId);
 
-    if (method === "GET" && pathname === "/makers") {
-      return sendHtml(res, makersPage());
-    }
+  const title = mostCommonTitle(favorites.map((f) => f.course));
 
-    if (method === "GET" && pathname === "/new") {
-      const cookies = parseCookies(req);
-      const myHandle = cookies["mm_handle"];
-      const mySecret = cookies["mm_secret"];
+  const items = favorites
+    .map(
+      ({ profile: p, course: c, rank }) => `<div class="card">
+        <div style="display:flex; justify-content:space-between; gap:10px; align-items:flex-start;">
+          <div>
+            <strong><a href="/u/${encodeURIComponent(p.handle)}">${escapeHtml(p.name)}</a></strong>
+            <span class="muted"> @${escapeHtml(p.handle)}</span>
+          </div>
+          <div><strong>#${rank}</strong></div>
+        </div>
+        <div style="margin-top:6px;">${escapeHtml(c.title || t(locale, "common.untitled"))}</div>
+        ${c.note ? `<div class="muted small">${escapeHtml(c.note)}</div>` : ""}
+      </div>`
+    )
+    .join("");
 
-      if (myHandle && mySecret) {
-        const p = profiles.get(myHandle);
-        if (p && p.editSecret === mySecret) {
-          return sendHtml(
-            res,
-            layout(
-              "作成済み",
-              `<div class="card">
-                <h1 style="margin-top:0;">あなたは既にプロフィールを作成しています</h1>
-                <p class="muted">新規作成ではなく、編集してください。</p>
-                <p><a href="/u/${encodeURIComponent(myHandle)}">自分のプロフィールを見る</a></p>
-                <p><a href="/edit">編集ページへ</a></p>
-              </div>`
-            )
-          );
-        }
-      }
+  return layout(
+    title || courseId,
+    `
+<div class="card">
+  <h1 style="margin:0;">${escapeHtml(title || t(locale, "course.title"))}</h1>
+  <div class="muted small" style="margin-top:4px;">${t(locale, "course.id", { id: `<span class="copy">${escapeHtml(courseId)}</span>` })}</div>
+</div>
 
-      return sendHtml(res, newProfilePage());
+<h2>${t(locale, "course.favoritedBy")} <span class="muted small">(${favorites.length})</span></h2>
+${items || `<p class="muted">${t(locale, "course.empty")}</p>`}
+<p><a href="/">${t(locale, "common.backToList")}</a></p>
+`,
+    locale,
+    {
+      description: t(locale, title ? "course.descriptionWithTitle" : "course.description", {
+        id: courseId,
+        title,
+        count: favorites.length,
+      }),
+      path: `/c/${encodeURIComponent(courseId)}`,
     }
+  );
+}
 
-    if (method === "POST" && pathname === "/new") {
-      // ★ 1人1プロフィール（この端末）チェック
-      const cookies = parseCookies(req);
-      const myHandle = cookies["mm_handle"];
-      const mySecret = cookies["mm_secret"];
-      if (myHandle && mySecret) {
-        const existing = profiles.get(myHandle);
-        if (existing && existing.editSecret === mySecret) {
-          // すでに作ってるなら新規作成させない（編集へ誘導）
-          res.writeHead(303, { Location: "/edit" });
-          return res.end();
-          // もしくは badRequest(res, "すでにプロフィールを作成しています。編集してください。");
-        }
-      }
+function rankingPage(tag: string, locale: Locale): string {
+  const ranking = buildCourseRanking(tag).slice(0, 100);
 
-      const body = await readBody(req);
-      const params = new URLSearchParams(body);
+  const tagLinks = TAG_OPTIONS.map((name) => {
+    const active = tag === name;
+    const href = active ? "/ranking" : `/ranking?tag=${encodeURIComponent(name)}`;
+    return `<a class="tag" href="${href}"${active ? ` style="font-weight:900;"` : ""}>${escapeHtml(tagLabel(name, locale))}</a>`;
+  }).join("");
 
-      const name = (params.get("name") ?? "").trim();
-      const handleRaw = (params.get("handle") ?? "").trim();
+  const items = ranking
+    .map((c, idx) => {
+      const makers = c.makers
+        .slice(0, 5)
+        .map((m) => `<a href="/u/${encodeURIComponent(m.handle)}">${escapeHtml(m.name)}</a><span class="muted">(#${m.rank})</span>`)
+        .join(" ");
+      return `<li class="card">
+        <div style="display:flex; justify-content:space-between; gap:10px; align-items:flex-start;">
+          <div>
+            <strong>${t(locale, "ranking.rank", { n: idx + 1 })} <a href="/c/${encodeURIComponent(c.courseId)}">${escapeHtml(c.title || c.courseId)}</a></strong>
+            <div class="muted small copy">${escapeHtml(c.courseId)}</div>
+          </div>
+          <div class="muted small">${t(locale, "ranking.score", { score: c.score, count: c.makers.length })}</div>
+        </div>
+        <div class="small" style="margin-top:6px;">${makers}${
+          c.makers.length > 5 ? ` <span class="muted">${t(locale, "ranking.more", { count: c.makers.length - 5 })}</span>` : ""
+        }</div>
+      </li>`;
+    })
+    .join("");
 
-      const makerIdRaw = (params.get("makerId") ?? "").trim();
-      const makerId = normalizeMakerId(makerIdRaw); // ★ 小文字→大文字＆整形
+  return layout(
+    t(locale, "ranking.title"),
+    `
+<h1 style="margin-top:0;">${t(locale, "ranking.title")}${
+      tag ? ` <span class="muted small">${t(locale, "ranking.forTag", { tag: escapeHtml(tagLabel(tag, locale)) })}</span>` : ""
+    }</h1>
+<p class="muted">${t(locale, "ranking.lead")}</p>
 
-      const bio = (params.get("bio") ?? "").trim();
-      const tags = parseSelectedTags(params);
+<div class="card">
+  <div><strong>${t(locale, "ranking.filter")}</strong>${
+    tag ? ` <a class="muted small" style="margin-left:6px;" href="/ranking">${t(locale, "home.clearFilter")}</a>` : ""
+  }</div>
+  <div class="tags" style="margin-top:10px;">${tagLinks}</div>
+</div>
 
-      if (!name) return badRequest(res, "表示名が必要です。");
-      const handle = makeUniqueHandle(handleRaw, name);
-      if (!makerId) return badRequest(res, "職人IDが必要です。");
-      if (!isValidMakerId(makerId)) {
-        return badRequest(res, "職人IDの形式が正しくありません。例: ABC-123-DEF");
-      }
+${items ? `<ol class="top10">${items}</ol>` : `<p class="muted">${t(locale, "ranking.empty")}</p>`}
+`,
+    locale,
+    { current: tag ? `/ranking?tag=${encodeURIComponent(tag)}` : "/ranking" }
+  );
+}
 
-      // Build Top10
-      const top10: TopCourse[] = [];
-      for (let i = 1; i <= 10; i++) {
-        const title = (params.get(`c_title_${i}`) ?? "").trim();
-        const courseId = normalizeCourseId(params.get(`c_id_${i}`) ?? "");
-        const note = (params.get(`c_note_${i}`) ?? "").trim();
-
-        if (title || courseId || note) {
-          top10.push({
-            title: title.slice(0, 60),
-            courseId: courseId.slice(0, 20),
-            note: note ? note.slice(0, 80) : undefined,
-          });
-        }
-      }
+// reveal: 作成・作り直しの直後の1回だけ true。それ以外はキーを出さない
+function editKeyPage(p: Profile, notice: string, csrf: string, locale: Locale, reveal: boolean): string {
+  // 2回目以降は見せないので、復元コードもこのページに埋め込んでおく
+  const recoveryHref = `data:text/plain;charset=utf-8,${encodeURIComponent(recoveryCodeText(p, locale))}`;
+  return layout(
+    t(locale, "key.title"),
+    `
+<div class="card">
+  <h1 style="margin-top:0;">${t(locale, "key.title")}</h1>
+  ${notice ? `<p><strong>${escapeHtml(notice)}</strong></p>` : ""}
+  <p class="muted">${t(locale, "key.lead")}</p>
 
-      const now = Date.now();
+  <label>${t(locale, "key.profileUrl")}</label>
+  <div class="copy">${escapeHtml(p.handle)}</div>
 
-      // ★ 本人確認用 secret を発行
-      const editSecret = newEditSecret();
+  <label>${t(locale, "key.title")}</label>
+  ${
+    reveal
+      ? `<input readonly value="${escapeHtml(p.editSecret)}" data-select-on-click />
+  <p class="small"><strong>${t(locale, "key.showOnce")}</strong></p>`
+      : `<p class="muted small">${t(locale, "key.hidden")}</p>`
+  }
 
-      const p: Profile = {
-        id: crypto.randomUUID(),
-        handle,
-        name: name.slice(0, 40),
-        makerId: makerId.slice(0, 20),
-        bio: bio.slice(0, 300),
-        tags,
-        top10,
-        createdAt: now,
-        updatedAt: now,
+  <div style="margin-top:14px;">
+    ${
+      reveal
+        ? `<a href="${escapeHtml(recoveryHref)}" download="smm2-profile-${escapeHtml(p.handle)}-key.txt"><button type="button">${t(locale, "key.download")}</button></a>`
+        : ""
+    }
+    <a class="muted" style="margin-left:10px;" href="/u/${encodeURIComponent(p.handle)}">${t(locale, "key.viewProfile")}</a>
+  </div>
 
-        editSecret, // ★ 追加
-      };
+  <hr style="opacity:.3; margin:16px 0;" />
+  <h3 style="margin-top:0;">${t(locale, "key.rotateHeading")}</h3>
+  <p class="muted small">${t(locale, "key.rotateLead")}</p>
+  <form method="POST" action="/key/rotate" data-confirm="${escapeHtml(t(locale, "key.rotateConfirm"))}">
+    ${csrfField(csrf)}
+    <button type="submit">${t(locale, "key.rotate")}</button>
+  </form>
+
+  <hr style="opacity:.3; margin:16px 0;" />
+  <h3 style="margin-top:0;">${t(locale, "key.passwordHeading")}</h3>
+  <p class="muted small">${t(locale, "key.passwordLead")}${t(locale, p.passwordHash ? "key.passwordSet" : "key.passwordUnset")}</p>
+  <form method="POST" action="/password">
+    ${csrfField(csrf)}
+    <label>${t(locale, "key.newPassword")}</label>
+    <input name="password" type="password" required minlength="8" maxlength="128" autocomplete="new-password" />
+    <label>${t(locale, "key.passwordAgain")}</label>
+    <input name="password2" type="password" required minlength="8" maxlength="128" autocomplete="new-password" />
+    <div style="margin-top:14px;">
+      <button type="submit">${t(locale, p.passwordHash ? "key.changePassword" : "key.setPassword")}</button>
+    </div>
+  </form>
+  ${
+    p.passwordHash
+      ? `<form method="POST" action="/password" style="margin-top:10px;">
+    ${csrfField(csrf)}
+    <input type="hidden" name="remove" value="1" />
+    <button type="submit">${t(locale, "key.removePassword")}</button>
+  </form>`
+      : ""
+  }
+</div>
+`,
+    locale
+  );
+}
+
+function recoveryCodeText(p: Profile, locale: Locale): string {
+  return [
+    t(locale, "recovery.title"),
+    "",
+    `${t(locale, "key.profileUrl")}: /u/${p.handle}`,
+    `handle: ${p.handle}`,
+    `${t(locale, "key.title")}: ${p.editSecret}`,
+    "",
+    t(locale, "recovery.howTo"),
+    "",
+  ].join("\n");
+}
+
+function claimPage(locale: Locale, csrf: string, handle = "", error = ""): string {
+  return layout(
+    t(locale, "claim.title"),
+    `
+<div class="card">
+  <h1 style="margin-top:0;">${t(locale, "claim.title")}</h1>
+  <p class="muted">${t(locale, "claim.lead")}</p>
+  ${error ? `<p style="color:#c00;">${escapeHtml(error)}</p>` : ""}
+  <form method="POST" action="/claim">
+    ${csrfField(csrf)}
+    <label>${t(locale, "claim.handle")}</label>
+    <input name="handle" required maxlength="32" value="${escapeHtml(handle)}" placeholder="${escapeHtml(t(locale, "common.example", { value: "mario" }))}" autocomplete="username" />
+
+    <label>${t(locale, "key.title")}</label>
+    <input name="key" type="password" required maxlength="64" autocomplete="current-password" />
+
+    <div style="margin-top:14px;">
+      <button type="submit">${t(locale, "claim.submit")}</button>
+    </div>
+  </form>
+</div>
+`,
+    locale
+  );
+}
+
+function deleteConfirmPage(p: Profile, csrf: string, locale: Locale, error = ""): string {
+  return layout(
+    t(locale, "delete.title"),
+    `
+<div class="card">
+  <h1 style="margin-top:0;">${t(locale, "edit.delete")}</h1>
+  <p>${t(locale, "delete.lead", { name: escapeHtml(p.name), handle: escapeHtml(p.handle) })}</p>
+  <p class="muted small">${t(locale, "delete.exportHint")}</p>
+  ${error ? `<p style="color:#c00;">${escapeHtml(error)}</p>` : ""}
+  <form method="POST" action="/delete">
+    ${csrfField(csrf)}
+    <label>${t(locale, "delete.confirm", { handle: escapeHtml(p.handle) })}</label>
+    <input name="confirm" required maxlength="32" autocomplete="off" />
+    <div style="margin-top:14px;">
+      <button type="submit">${t(locale, "delete.submit")}</button>
+      <a class="muted" style="margin-left:10px;" href="/edit">${t(locale, "edit.cancel")}</a>
+    </div>
+  </form>
+</div>
+`,
+    locale
+  );
+}
+
+function loginPage(locale: Locale, csrf: string, handle = "", error = ""): string {
+  return layout(
+    t(locale, "login.title"),
+    `
+<div class="card">
+  <h1 style="margin-top:0;">${t(locale, "login.title")}</h1>
+  <p class="muted">${t(locale, "login.lead")}</p>
+  ${error ? `<p style="color:#c00;">${escapeHtml(error)}</p>` : ""}
+  <form method="POST" action="/login">
+    ${csrfField(csrf)}
+    <label>${t(locale, "claim.handle")}</label>
+    <input name="handle" required maxlength="32" value="${escapeHtml(handle)}" placeholder="${escapeHtml(t(locale, "common.example", { value: "mario" }))}" autocomplete="username" />
+
+    <label>${t(locale, "login.password")}</label>
+    <input name="password" type="password" required maxlength="128" autocomplete="current-password" />
+
+    <div style="margin-top:14px;">
+      <button type="submit">${t(locale, "login.title")}</button>
+    </div>
+  </form>
+</div>
+`,
+    locale
+  );
+}
+
+/** ---------- Profile cards (SVG / PNG) ---------- */
+
+const CARD_WIDTH = 1200;
+const CARD_HEIGHT = 630; // X / Discord のプレビューにそのまま使える 1.91:1
+
+const CARD_FONT_FAMILY = `'Noto Sans JP','Noto Sans CJK JP','Hiragino Sans','Yu Gothic','DejaVu Sans',sans-serif`;
+
+// PNG はサーバのフォントで描くので、日本語フォントの入っていないホストでも豆腐にならないよう
+// Noto Sans JP（@expo-google-fonts/noto-sans-jp）を同梱する。別のフォントを足すなら CARD_FONT_DIR へ
+const CARD_FONT_DIRS = process.env.CARD_FONT_DIR ? [process.env.CARD_FONT_DIR] : [];
+const CARD_FONT_FILES = (() => {
+  try {
+    const dir = path.dirname(require.resolve("@expo-google-fonts/noto-sans-jp/package.json"));
+    return [
+      path.join(dir, "400Regular", "NotoSansJP_400Regular.ttf"),
+      path.join(dir, "700Bold", "NotoSansJP_700Bold.ttf"),
+    ].filter((file) => fs.existsSync(file));
+  } catch {
+    console.error("@expo-google-fonts/noto-sans-jp is not installed; Japanese text in card images may not render");
+    return [];
+  }
+})();
+
+// 描画結果は updatedAt（と handle）が変わるまで使い回す
+type CachedCard = { version: string; svg: string; png?: Buffer };
+const cardCache = new Map<string, CachedCard>();
+const CARD_CACHE_MAX = 500;
+
+// 全角は1文字、半角は0.6文字くらいの幅として、収まらなければ … で切る
+function fitText(text: string, fontSize: number, maxWidth: number): string {
+  let width = 0;
+  let out = "";
+  for (const ch of Array.from(text)) {
+    width += (ch.charCodeAt(0) < 0x100 ? 0.6 : 1) * fontSize;
+    if (width > maxWidth) return out + "…";
+    out += ch;
+  }
+  return out;
+}
+
+function textWidth(text: string, fontSize: number): number {
+  return Array.from(text).reduce((w, ch) => w + (ch.charCodeAt(0) < 0x100 ? 0.6 : 1) * fontSize, 0);
+}
+
+function profileCardSvg(p: Profile): string {
+  let tagX = 80;
+  const tags = p.tags
+    .map((tag) => {
+      const w = textWidth(tag, 26) + 36;
+      const chip = `<rect x="${tagX}" y="262" width="${w}" height="44" rx="22" fill="#fff2b3" stroke="rgba(0,0,0,.12)"/>
+  <text x="${tagX + 18}" y="293" font-size="26" fill="#2f2f2f">${escapeHtml(tag)}</text>`;
+      tagX += w + 12;
+      return chip;
+    })
+    .join("\n  ");
+
+  const courses = rankedTop10(p)
+    .filter((c) => c.title || c.courseId)
+    .slice(0, 3)
+    .map((c, i) => {
+      const y = 370 + i * 62;
+      return `<text x="80" y="${y}" font-size="32" font-weight="700" fill="#1f2937">#${i + 1} ${escapeHtml(fitText(c.title || "-", 32, 720))}</text>
+  <text x="1120" y="${y}" font-size="28" fill="#6b7280" text-anchor="end" font-family="monospace">${escapeHtml(c.courseId)}</text>`;
+    })
+    .join("\n  ");
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" viewBox="0 0 ${CARD_WIDTH} ${CARD_HEIGHT}" font-family="${CARD_FONT_FAMILY}">
+  <rect width="${CARD_WIDTH}" height="${CARD_HEIGHT}" fill="#ffd000"/>
+  <rect y="${CARD_HEIGHT - 60}" width="${CARD_WIDTH}" height="60" fill="#ffb800"/>
+  <rect x="40" y="36" width="${CARD_WIDTH - 80}" height="${CARD_HEIGHT - 120}" rx="28" fill="#ffffff" stroke="rgba(0,0,0,.10)" stroke-width="2"/>
+  <text x="80" y="128" font-size="64" font-weight="900" fill="#1f2937">${escapeHtml(fitText(p.name, 64, 1040))}</text>
+  <text x="80" y="178" font-size="30" fill="#6b7280">@${escapeHtml(p.handle)}</text>
+  <text x="80" y="232" font-size="30" fill="#1f2937">MAKER ID <tspan font-weight="700" font-family="monospace">${escapeHtml(p.makerId)}</tspan></text>
+  ${tags}
+  ${courses || `<text x="80" y="370" font-size="30" fill="#6b7280">No favorite courses yet</text>`}
+  <text x="60" y="${CARD_HEIGHT - 20}" font-size="28" font-weight="900" fill="#1f2937">SMM2 Profile Maker</text>
+  <text x="${CARD_WIDTH - 60}" y="${CARD_HEIGHT - 20}" font-size="26" fill="#1f2937" text-anchor="end">/u/${escapeHtml(p.handle)}</text>
+</svg>
+`;
+}
+
+function cardVersion(p: Profile): string {
+  return crypto.createHash("sha256").update(`${p.id}:${p.handle}:${p.updatedAt}`).digest("base64url").slice(0, 16);
+}
+
+function getProfileCard(p: Profile): CachedCard {
+  const version = cardVersion(p);
+  const cached = cardCache.get(p.id);
+  if (cached?.version === version) {
+    // 最近使った順に並べ直す（古いものから捨てる）
+    cardCache.delete(p.id);
+    cardCache.set(p.id, cached);
+    return cached;
+  }
+  const card: CachedCard = { version, svg: profileCardSvg(p) };
+  cardCache.set(p.id, card);
+  if (cardCache.size > CARD_CACHE_MAX) cardCache.delete(cardCache.keys().next().value!);
+  return card;
+}
+
+function profileCardPng(card: CachedCard): Buffer {
+  if (!card.png) {
+    const resvg = new Resvg(card.svg, {
+      font: {
+        loadSystemFonts: true,
+        fontFiles: CARD_FONT_FILES,
+        fontDirs: CARD_FONT_DIRS,
+        defaultFontFamily: "Noto Sans JP",
+        sansSerifFamily: "Noto Sans JP",
+        // ID 用の monospace も、等幅フォントが無いホストで明朝体に落ちないよう同じフォントで描く
+        monospaceFamily: "Noto Sans JP",
+      },
+    });
+    card.png = resvg.render().asPng();
+  }
+  return card.png;
+}
+
+function sendProfileCard(req: http.IncomingMessage, res: http.ServerResponse, p: Profile, format: "svg" | "png") {
+  const card = getProfileCard(p);
+  const etag = `"${card.version}-${format}"`;
+  const headers = {
+    ETag: etag,
+    "Last-Modified": new Date(p.updatedAt).toUTCString(),
+    "Cache-Control": "public, max-age=300",
+  };
+  if (req.headers["if-none-match"] === etag) {
+    res.writeHead(304, headers);
+    return res.end();
+  }
+  const body = format === "svg" ? card.svg : profileCardPng(card);
+  res.writeHead(200, { ...headers, "Content-Type": format === "svg" ? "image/svg+xml; charset=utf-8" : "image/png" });
+  res.end(body);
+}
+
+/** ---------- Embed (iframe / oEmbed) ---------- */
+
+const EMBED_WIDTH = 400;
+const EMBED_HEIGHT = 480;
+
+type EmbedTheme = "light" | "dark";
+
+const EMBED_THEMES: Record<EmbedTheme, Record<string, string>> = {
+  light: { bg: "#fff9e6", card: "#ffffff", text: "#1f2937", muted: "#6b7280", accent: "#ffd000", link: "#0b62ff" },
+  dark: { bg: "#1f2430", card: "#2a3040", text: "#f3f4f6", muted: "#9ca3af", accent: "#ffb800", link: "#8ab4ff" },
+};
+
+function parseEmbedTheme(raw: string | null): EmbedTheme {
+  return raw === "dark" ? "dark" : "light";
+}
+
+// 埋め込みページだけはどのサイトの iframe にも入れてよい
+function allowFraming(res: http.ServerResponse) {
+  res.setHeader(
+    "Content-Security-Policy",
+    SECURITY_HEADERS["Content-Security-Policy"].replace("frame-ancestors 'none'", "frame-ancestors *")
+  );
+  res.removeHeader("X-Frame-Options");
+}
+
+// layout のヘッダー・ナビ無しで、名前と Top10 だけを表示する。リンクは iframe の外（新しいタブ）で開く
+function embedPage(p: Profile, theme: EmbedTheme, locale: Locale): string {
+  const c = EMBED_THEMES[theme];
+  const profileUrl = `/u/${encodeURIComponent(p.handle)}`;
+  return `<!doctype html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width,initial-scale=1" />
+<title>${escapeHtml(p.name)} - SMM2 Profile Maker</title>
+<style>
+  body{ margin:0; padding:12px; background:${c.bg}; color:${c.text};
+    font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", "Hiragino Sans", "Noto Sans JP", sans-serif; font-size:14px; }
+  a{ color:${c.link}; text-decoration:none; }
+  a:hover{ text-decoration:underline; }
+  .card{ background:${c.card}; border-radius:14px; border-top:6px solid ${c.accent}; padding:12px 14px; }
+  .muted{ color:${c.muted}; }
+  .small{ font-size:12px; }
+  .copy{ font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+  h1{ font-size:18px; margin:0; }
+  h2{ font-size:14px; margin:12px 0 4px; }
+  .top10{ list-style:none; padding:0; margin:0; }
+  .top10 li{ margin:6px 0; }
+  .top10 .sub{ margin-left:12px; }
+</style>
+</head>
+<body>
+<div class="card">
+  <h1><a href="${profileUrl}" target="_blank" rel="noopener">${escapeHtml(p.name)}</a></h1>
+  <div class="muted small">${t(locale, "common.makerId", { id: `<span class="copy">${escapeHtml(p.makerId)}</span>` })}</div>
+  <h2>${t(locale, "profile.favorites", { name: escapeHtml(p.name) })}</h2>
+  ${
+    p.top10.some((course) => course.title || course.courseId)
+      ? `<ol class="top10">${top10Items(p, locale, "_blank")}</ol>`
+      : `<p class="muted">${t(locale, "profile.noFavorites")}</p>`
+  }
+  <p class="small"><a href="${profileUrl}" target="_blank" rel="noopener">${t(locale, "embed.viewProfile")}</a></p>
+</div>
+</body>
+</html>`;
+}
+
+function embedIframe(p: Profile, theme: EmbedTheme, width: number, height: number): string {
+  const src = absoluteUrl(`/embed/u/${encodeURIComponent(p.handle)}${theme === "dark" ? "?theme=dark" : ""}`);
+  return `<iframe src="${escapeHtml(src)}" width="${width}" height="${height}" style="border:0; border-radius:14px;" title="${escapeHtml(
+    p.name
+  )} - SMM2 Profile Maker" loading="lazy"></iframe>`;
+}
+
+// https://oembed.com/ の rich 形式。url は PUBLIC_BASE_URL の /u/:handle だけ受け付ける
+function oembedResponse(params: URLSearchParams): { status: number; body: Record<string, unknown> } {
+  if ((params.get("format") ?? "json") !== "json") return { status: 501, body: { error: "format_not_supported" } };
+
+  let target: URL;
+  try {
+    target = new URL(params.get("url") ?? "");
+  } catch {
+    return { status: 404, body: { error: "not_found" } };
+  }
+  const m = /^\/u\/([^/]+)\/?$/.exec(target.pathname);
+  const p = m && target.origin === new URL(PUBLIC_BASE_URL).origin ? resolveProfile(decodeURIComponent(m[1])) : undefined;
+  if (!p || p.hiddenAt) return { status: 404, body: { error: "not_found" } };
+
+  const theme = parseEmbedTheme(params.get("theme") ?? target.searchParams.get("theme"));
+  const width = Math.min(EMBED_WIDTH, parsePositiveInt(params.get("maxwidth"), EMBED_WIDTH, EMBED_WIDTH));
+  const height = Math.min(EMBED_HEIGHT, parsePositiveInt(params.get("maxheight"), EMBED_HEIGHT, EMBED_HEIGHT));
+
+  return {
+    status: 200,
+    body: {
+      version: "1.0",
+      type: "rich",
+      provider_name: "SMM2 Profile Maker",
+      provider_url: absoluteUrl("/"),
+      title: p.name,
+      author_name: p.name,
+      author_url: absoluteUrl(`/u/${encodeURIComponent(p.handle)}`),
+      html: embedIframe(p, theme, width, height),
+      width,
+      height,
+      cache_age: 3600,
+      thumbnail_url: absoluteUrl(`/u/${encodeURIComponent(p.handle)}/card.png`),
+      thumbnail_width: CARD_WIDTH,
+      thumbnail_height: CARD_HEIGHT,
+    },
+  };
+}
+
+/** ---------- Feeds (Atom) ---------- */
+
+const FEED_LIMIT = 50;
+
+type FeedSort = Extract<ProfileSort, "created" | "updated">;
+
+// 新しい職人（created）か、更新された職人（updated）。tag は TAG_OPTIONS のどれか
+function atomFeed(sort: FeedSort, tag: string, locale: Locale): string {
+  const list = searchProfiles("", tag, sort, locale).slice(0, FEED_LIMIT);
+  const time = (p: Profile) => (sort === "created" ? p.createdAt : p.updatedAt);
+  const feedUpdated = list.length ? Math.max(...list.map(time)) : 0;
+
+  const query = new URLSearchParams();
+  if (tag) query.set("tag", tag);
+  if (sort !== "updated") query.set("sort", sort);
+  const qs = query.toString() ? `?${query}` : "";
+
+  const title = t(locale, sort === "created" ? "feed.created" : "feed.updated");
+  const entries = list
+    .map((p) => {
+      const url = absoluteUrl(`/u/${encodeURIComponent(p.handle)}`);
+      const content = `${p.bio ? `<p>${escapeHtml(p.bio).replace(/\n/g, "<br />")}</p>` : ""}
+<p>${t(locale, "common.makerId", { id: escapeHtml(p.makerId) })}</p>
+${p.tags.length ? `<p>${p.tags.map((name) => escapeHtml(tagLabel(name, locale))).join(" / ")}</p>` : ""}
+${
+  p.top10.some((c) => c.title || c.courseId)
+    ? `<h3>${t(locale, "profile.favorites", { name: escapeHtml(p.name) })}</h3><ol>${top10Items(p, locale)}</ol>`
+    : ""
+}`;
+      return `  <entry>
+    <id>urn:uuid:${p.id}</id>
+    <title>${escapeHtml(p.name)} (@${escapeHtml(p.handle)})</title>
+    <link rel="alternate" type="text/html" href="${escapeHtml(url)}" />
+    <author><name>${escapeHtml(p.name)}</name><uri>${escapeHtml(url)}</uri></author>
+    <published>${new Date(p.createdAt).toISOString()}</published>
+    <updated>${new Date(p.updatedAt).toISOString()}</updated>${p.tags
+      .map((name) => `\n    <category term="${escapeHtml(name)}" label="${escapeHtml(tagLabel(name, locale))}" />`)
+      .join("")}${p.bio ? `\n    <summary>${escapeHtml(excerpt(p.bio, 120))}</summary>` : ""}
+    <content type="html">${escapeHtml(content)}</content>
+  </entry>`;
+    })
+    .join("\n");
+
+  // content 内の /c/... などの相対リンクは xml:base で解決させる
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${locale}" xml:base="${escapeHtml(absoluteUrl("/"))}">
+  <id>${escapeHtml(absoluteUrl(`/feed.atom${qs}`))}</id>
+  <title>SMM2 Profile Maker - ${escapeHtml(tag ? `${title} (${tagLabel(tag, locale)})` : title)}</title>
+  <link rel="self" type="application/atom+xml" href="${escapeHtml(absoluteUrl(`/feed.atom${qs}`))}" />
+  <link rel="alternate" type="text/html" href="${escapeHtml(absoluteUrl(tag ? `/?tag=${encodeURIComponent(tag)}` : "/"))}" />
+  <updated>${new Date(feedUpdated).toISOString()}</updated>
+${entries}
+</feed>
+`;
+}
+
+/** ---------- Sitemap / robots.txt ---------- */
+
+// 1 ファイルあたりの URL 数（sitemaps.org の上限は 50,000）。超えたら sitemap index に分割する
+const SITEMAP_URL_LIMIT = Math.min(50000, Math.max(1, Number(process.env.SITEMAP_URL_LIMIT) || 50000));
+
+type SitemapUrl = { path: string; lastmod: number };
+
+// 作成順に並べて、新しいプロフィールが常に最後のファイルに入るようにする
+function sitemapUrls(): SitemapUrl[] {
+  const list = visibleProfiles().sort((a, b) => a.createdAt - b.createdAt || a.id.localeCompare(b.id));
+  const latest = list.reduce((max, p) => Math.max(max, p.updatedAt), 0);
+  return [
+    { path: "/", lastmod: latest },
+    { path: "/makers", lastmod: latest },
+    { path: "/ranking", lastmod: latest },
+    ...list.map((p) => ({ path: `/u/${encodeURIComponent(p.handle)}`, lastmod: p.updatedAt })),
+  ];
+}
+
+function sitemapDate(ms: number): string {
+  return new Date(ms || Date.now()).toISOString();
+}
+
+function sitemapPageCount(urls: SitemapUrl[]): number {
+  return Math.ceil(urls.length / SITEMAP_URL_LIMIT);
+}
+
+function urlsetXml(urls: SitemapUrl[]): string {
+  const items = urls
+    .map((x) => `  <url><loc>${escapeHtml(absoluteUrl(x.path))}</loc><lastmod>${sitemapDate(x.lastmod)}</lastmod></url>`)
+    .join("\n");
+  return `<?xml version="1.0" encoding="utf-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${items}
+</urlset>
+`;
+}
+
+// /sitemap.xml: URL が少なければそのまま urlset、多ければ /sitemap-N.xml への index
+function sitemapXml(): string {
+  const urls = sitemapUrls();
+  const pages = sitemapPageCount(urls);
+  if (pages <= 1) return urlsetXml(urls);
+
+  const items = Array.from({ length: pages }, (_, i) => {
+    const chunk = urls.slice(i * SITEMAP_URL_LIMIT, (i + 1) * SITEMAP_URL_LIMIT);
+    const lastmod = chunk.reduce((max, x) => Math.max(max, x.lastmod), 0);
+    return `  <sitemap><loc>${escapeHtml(absoluteUrl(`/sitemap-${i + 1}.xml`))}</loc><lastmod>${sitemapDate(lastmod)}</lastmod></sitemap>`;
+  }).join("\n");
+  return `<?xml version="1.0" encoding="utf-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${items}
+</sitemapindex>
+`;
+}
+
+// /sitemap-N.xml（1 始まり）。範囲外や分割していないときは null
+function sitemapPageXml(n: number): string | null {
+  const urls = sitemapUrls();
+  const pages = sitemapPageCount(urls);
+  if (pages <= 1 || !Number.isInteger(n) || n < 1 || n > pages) return null;
+  return urlsetXml(urls.slice((n - 1) * SITEMAP_URL_LIMIT, n * SITEMAP_URL_LIMIT));
+}
+
+function robotsTxt(): string {
+  return `User-agent: *
+Disallow: /admin
+Disallow: /api/
+Disallow: /edit
+Disallow: /delete
+Disallow: /key
+Disallow: /claim
+Disallow: /login
+Disallow: /export
+Disallow: /embed/
+
+Sitemap: ${absoluteUrl("/sitemap.xml")}
+`;
+}
+
+/** ---------- API (JSON) ---------- */
+
+// editSecret は絶対に外へ出さない
+type PublicProfile = Omit<Profile, "editSecret" | "passwordHash" | "reports">;
+
+function toPublicProfile(p: Profile): PublicProfile {
+  const { editSecret: _secret, passwordHash: _password, reports: _reports, ...rest } = p;
+  return { ...rest, top10: rankedTop10(p) };
+}
+
+function parsePositiveInt(raw: string | null, fallback: number, max: number): number {
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 1) return fallback;
+  return Math.min(n, max);
+}
+
+function apiNotFound(res: http.ServerResponse) {
+  sendJson(res, { error: "not_found" }, 404);
+}
+
+function apiProfilesList(params: URLSearchParams, locale: Locale) {
+  const query = parseListQuery(params);
+  const limit = parsePositiveInt(params.get("limit"), PAGE_SIZE, 100);
+
+  const page = paginate(searchProfiles(query.q, query.tag, query.sort, locale), query.page, limit);
+  return { ...page, items: page.items.map(toPublicProfile), sort: query.sort };
+}
+
+function apiRanking(params: URLSearchParams) {
+  const tag = parseTagOption(params.get("tag"));
+  const limit = parsePositiveInt(params.get("limit"), 50, 100);
+  return {
+    tag: tag || null,
+    items: buildCourseRanking(tag)
+      .slice(0, limit)
+      .map((c, idx) => ({ rank: idx + 1, ...c })),
+  };
+}
+
+function isDirWritable(dir: string): boolean {
+  try {
+    fs.accessSync(dir, fs.constants.W_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// npm start で起動したときは package.json の version が入る
+const APP_VERSION = process.env.npm_package_version || "dev";
+
+// 誰でも見られるのは status と version だけ。パスやエラー内容は管理者（ADMIN_TOKEN）にだけ返す
+function healthReport(detailed: boolean) {
+  const writable = isDirWritable(DATA_DIR);
+  const status = shuttingDown ? "shutting_down" : writable ? "ok" : "data_dir_not_writable";
+  if (!detailed) return { status, version: APP_VERSION };
+  return {
+    status,
+    version: APP_VERSION,
+    storage: STORAGE_BACKEND,
+    dataDir: {
+      path: DATA_DIR,
+      preferred: DATA_DIR_INFO.preferred,
+      fellBack: DATA_DIR_INFO.fellBack,
+      fallbackReason: DATA_DIR_INFO.reason ?? null,
+      writable,
+    },
+    profiles: profiles.size,
+    uptimeSec: Math.round(process.uptime()),
+  };
+}
+
+function apiTags() {
+  return {
+    items: countTags().map(([tag, count]) => ({ tag, count })),
+  };
+}
+
+function bearerToken(req: http.IncomingMessage): string {
+  const m = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+  return m ? m[1].trim() : "";
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<RawRecord | null> {
+  const body = await readBody(req);
+  try {
+    const obj: unknown = JSON.parse(body);
+    return isRecord(obj) ? obj : null;
+  } catch {
+    return null;
+  }
+}
+
+// JSON をフォームと同じ形（c_title_1 など）に変換して、parseProfileForm のバリデーションをそのまま通す。
+// base を渡すと、JSON に無い項目は base の値を使う（PATCH 用）
+function jsonToFormParams(input: RawRecord, base?: ProfileFields): URLSearchParams {
+  const src: RawRecord = { ...base };
+  for (const [k, v] of Object.entries(input)) {
+    if (v !== undefined) src[k] = v;
+  }
+
+  const params = new URLSearchParams();
+  for (const key of ["name", "handle", "makerId", "bio"]) {
+    const v = src[key];
+    if (typeof v === "string") params.set(key, v);
+  }
+  if (Array.isArray(src.tags)) {
+    for (const t of src.tags) if (typeof t === "string") params.append("tags", t);
+  }
+  if (Array.isArray(src.top10)) {
+    src.top10.slice(0, 10).forEach((c: unknown, i: number) => {
+      if (!isRecord(c)) return;
+      const n = i + 1;
+      params.set(`c_title_${n}`, String(c.title ?? ""));
+      params.set(`c_id_${n}`, String(c.courseId ?? ""));
+      params.set(`c_note_${n}`, String(c.note ?? ""));
+    });
+  }
+  return params;
+}
+
+/** ---------- Admin ---------- */
+
+// 未設定なら /admin は存在しない扱い
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN ?? "";
+const ADMIN_COOKIE_MAX_AGE_SEC = 60 * 60 * 12;
+const AUDIT_FILE = path.join(DATA_DIR, "admin-audit.jsonl");
+
+type AuditEntry = {
+  at: number;
+  action: string;
+  handle: string;
+  profileId: string;
+  detail?: string;
+  ip: string;
+};
+
+function matchesAdminToken(presented: string): boolean {
+  if (!ADMIN_TOKEN) return false;
+  // 長さで差が出ないよう、ハッシュ同士を比べる
+  return crypto.timingSafeEqual(
+    Buffer.from(hashToken(presented), "base64url"),
+    Buffer.from(hashToken(ADMIN_TOKEN), "base64url")
+  );
+}
+
+// ブラウザには管理トークンそのものではなく、ログインごとのランダムなセッションを cookie で渡す
+// （メモリにだけ持つので、再起動したらログインし直し）
+const adminSessions = new Map<string, number>(); // key: tokenHash, value: expiresAt
+
+function createAdminSession(): string {
+  const now = Date.now();
+  for (const [key, expiresAt] of adminSessions) if (expiresAt <= now) adminSessions.delete(key);
+  const token = crypto.randomBytes(32).toString("base64url");
+  adminSessions.set(hashToken(token), now + ADMIN_COOKIE_MAX_AGE_SEC * 1000);
+  return token;
+}
+
+function hasAdminSession(req: http.IncomingMessage): boolean {
+  const token = parseCookies(req)["mm_admin"];
+  const expiresAt = token ? adminSessions.get(hashToken(token)) : undefined;
+  return expiresAt !== undefined && expiresAt > Date.now();
+}
+
+// スクリプトからは Authorization: Bearer <ADMIN_TOKEN>（cookie を使わないので CSRF の心配がない）
+function isAdminBearer(req: http.IncomingMessage): boolean {
+  const token = bearerToken(req);
+  return !!token && matchesAdminToken(token);
+}
+
+function isAdmin(req: http.IncomingMessage): boolean {
+  return isAdminBearer(req) || hasAdminSession(req);
+}
+
+// 管理操作は必ず追記で残す（消さない）
+function appendAudit(req: http.IncomingMessage, action: string, p: Profile | null, detail?: string) {
+  const entry: AuditEntry = {
+    at: Date.now(),
+    action,
+    handle: p?.handle ?? "",
+    profileId: p?.id ?? "",
+    detail,
+    ip: clientIp(req),
+  };
+  fs.appendFileSync(AUDIT_FILE, JSON.stringify(entry) + "\n", "utf8");
+}
+
+// ログは増え続けるので、末尾から必要な行数だけ読む
+function readAuditTail(limit: number): string[] {
+  if (!fs.existsSync(AUDIT_FILE)) return [];
+  const fd = fs.openSync(AUDIT_FILE, "r");
+  try {
+    const chunkSize = 64 * 1024;
+    let pos = fs.fstatSync(fd).size;
+    let text = "";
+    while (pos > 0 && text.split("\n").length <= limit + 1) {
+      const size = Math.min(chunkSize, pos);
+      pos -= size;
+      const buf = Buffer.alloc(size);
+      fs.readSync(fd, buf, 0, size, pos);
+      text = buf.toString("latin1") + text; // 行の途中で切っても壊れないよう、バイト列のまま繋ぐ
+    }
+    const lines = Buffer.from(text, "latin1").toString("utf8").split("\n").filter(Boolean);
+    // 途中から読んだ先頭行は欠けているかもしれないので捨てる
+    return (pos > 0 ? lines.slice(1) : lines).slice(-limit);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function readRecentAudit(limit: number): AuditEntry[] {
+  return readAuditTail(limit)
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as AuditEntry];
+      } catch {
+        return [];
+      }
+    })
+    .reverse();
+}
+
+function adminLoginPage(csrf: string, error = ""): string {
+  return layout(
+    "管理",
+    `
+<div class="card">
+  <h1 style="margin-top:0;">管理者ログイン</h1>
+  ${error ? `<p style="color:#c00;">${escapeHtml(error)}</p>` : ""}
+  <form method="POST" action="/admin/login">
+    ${csrfField(csrf)}
+    <label>管理トークン</label>
+    <input name="token" type="password" required autocomplete="current-password" />
+    <div style="margin-top:14px;">
+      <button type="submit">ログイン</button>
+    </div>
+  </form>
+</div>
+`
+  );
+}
+
+function adminPage(q: string, csrf: string, notice = ""): string {
+  const needle = q.trim().toLowerCase();
+  const list = Array.from(profiles.values())
+    .filter((p) => {
+      if (!needle) return true;
+      const text = [p.name, p.handle, p.makerId, p.bio, ...(p.oldHandles ?? [])].join(" ").toLowerCase();
+      return text.includes(needle);
+    })
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+
+  const rows = list
+    .map((p) => {
+      const hidden = !!p.hiddenAt;
+      return `<div class="card">
+        <div style="display:flex; justify-content:space-between; gap:10px; align-items:flex-start;">
+          <div>
+            <strong><a href="/u/${encodeURIComponent(p.handle)}">${escapeHtml(p.name)}</a></strong>
+            <span class="muted"> @${escapeHtml(p.handle)}</span>
+            ${hidden ? `<span class="tag" style="margin-left:6px;">非表示</span>` : ""}
+            <div class="muted small">職人ID: ${escapeHtml(p.makerId)} · 更新: ${new Date(p.updatedAt).toLocaleString("ja-JP")}</div>
+            ${
+              hidden
+                ? `<div class="muted small">非表示: ${new Date(p.hiddenAt!).toLocaleString("ja-JP")}${p.hiddenReason ? ` / ${escapeHtml(p.hiddenReason)}` : ""}</div>`
+                : ""
+            }
+          </div>
+        </div>
+        <div style="margin-top:6px;">${escapeHtml(p.bio)}</div>
+        ${
+          p.reports?.length
+            ? `<div class="small" style="margin-top:6px;"><strong>通報 ${p.reports.length}件</strong><ul>${p.reports
+                .map(
+                  (r) =>
+                    `<li>${escapeHtml(t("ja", `report.${r.reason}`))}${r.comment ? `: ${escapeHtml(r.comment)}` : ""} <span class="muted">(${new Date(r.at).toLocaleString("ja-JP")})</span></li>`
+                )
+                .join("")}</ul></div>`
+            : ""
+        }
+        <form method="POST" action="/admin/profiles" style="margin-top:10px; display:flex; gap:8px; flex-wrap:wrap; align-items:center;">
+          ${csrfField(csrf)}
+          <input type="hidden" name="handle" value="${escapeHtml(p.handle)}" />
+          <input type="hidden" name="q" value="${escapeHtml(q)}" />
+          ${
+            hidden
+              ? `<button type="submit" name="action" value="unhide">再表示</button>`
+              : `<input name="reason" maxlength="200" placeholder="非表示の理由（任意）" style="flex:1 1 200px;" />
+          <button type="submit" name="action" value="hide">非表示にする</button>`
+          }
+          ${p.reports?.length ? `<button type="submit" name="action" value="clear-reports">通報をクリア</button>` : ""}
+          <button type="submit" name="action" value="reset-key" data-confirm="編集キーを再発行しますか？本人の端末の編集権限も解除されます。">編集キー再発行</button>
+          <button type="submit" name="action" value="delete" data-confirm="完全に削除しますか？元に戻せません。">削除</button>
+        </form>
+      </div>`;
+    })
+    .join("");
+
+  const audit = readRecentAudit(50)
+    .map(
+      (e) => `<li class="small">
+        <span class="muted">${new Date(e.at).toLocaleString("ja-JP")}</span>
+        <strong>${escapeHtml(e.action)}</strong>
+        ${e.handle ? `@${escapeHtml(e.handle)}` : ""}
+        ${e.detail ? `<span class="muted">— ${escapeHtml(e.detail)}</span>` : ""}
+        <span class="muted">(${escapeHtml(e.ip)})</span>
+      </li>`
+    )
+    .join("");
+
+  return layout(
+    "管理",
+    `
+<div class="card">
+  <div style="display:flex; justify-content:space-between; gap:10px; align-items:flex-start;">
+    <h1 style="margin-top:0;">管理</h1>
+    <form method="POST" action="/admin/logout">${csrfField(csrf)}<button type="submit">ログアウト</button></form>
+  </div>
+  ${notice ? `<p><strong>${escapeHtml(notice)}</strong></p>` : ""}
+  <form method="GET" action="/admin">
+    <label>検索（名前・handle・職人ID・自己紹介）</label>
+    <input name="q" value="${escapeHtml(q)}" />
+    <div style="margin-top:12px;">
+      <button type="submit">検索</button>
+      <a class="muted" style="margin-left:10px;" href="/admin">リセット</a>
+    </div>
+  </form>
+</div>
+
+<h2>プロフィール <span class="muted small">(${list.length})</span></h2>
+${rows || `<p class="muted">該当するプロフィールはありません。</p>`}
+
+<h2>操作ログ</h2>
+${audit ? `<ul>${audit}</ul>` : `<p class="muted">まだ操作はありません。</p>`}
+`
+  );
+}
+
+/** ---------- Server ---------- */
+
+const server = http.createServer(async (req, res) => {
+  // 表示言語（?lang= で選んだら cookie に覚えておく）。エラーページでも使うので try の外で決める
+  const locale = requestLocale(req);
+  try {
+    const method = req.method ?? "GET";
+    const u = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+    const pathname = u.pathname;
+
+    const langParam = parseLocale(u.searchParams.get("lang"));
+    if (langParam && parseCookies(req)["mm_lang"] !== langParam) setCookie(res, "mm_lang", langParam);
+
+    // 終了処理中は keep-alive を切って、次のリクエストは別のインスタンスへ
+    if (shuttingDown) res.setHeader("Connection", "close");
+    setSecurityHeaders(res);
+
+    // 書き込みは IP ごとに回数を絞る（プロフィール作成はさらに厳しく）
+    if (method === "POST" || method === "PATCH") {
+      const ip = clientIp(req);
+      const creating = method === "POST" && (pathname === "/new" || pathname === "/api/v1/profiles");
+      const wait = takeToken("write", ip) || (creating ? takeToken("create", ip) : 0);
+      if (wait) return tooManyRequests(res, pathname.startsWith("/api/"), wait, locale);
+    }
+
+    // Basic routing
+    // healthz: プロセスが生きているか / readyz: リクエストを受けてよいか（終了処理中・書き込み不可なら 503）
+    if (method === "GET" && pathname === "/healthz") {
+      return sendJson(res, healthReport(isAdmin(req)));
+    }
+
+    if (method === "GET" && pathname === "/readyz") {
+      const report = healthReport(isAdmin(req));
+      return sendJson(res, report, report.status === "ok" ? 200 : 503);
+    }
+
+    if (method === "GET" && pathname === "/assets/app.js") {
+      res.writeHead(200, {
+        "Content-Type": "text/javascript; charset=utf-8",
+        "Cache-Control":
+          u.searchParams.get("v") === APP_JS_VERSION ? "public, max-age=31536000, immutable" : "public, max-age=300",
+      });
+      return res.end(APP_JS);
+    }
+
+    if (method === "GET" && pathname === "/") {
+      return sendHtml(res, homePage(parseListQuery(u.searchParams), locale));
+    }
+
+    if (method === "GET" && pathname === "/api/v1/profiles") {
+      return sendJson(res, apiProfilesList(u.searchParams, locale));
+    }
+
+    if (method === "GET" && pathname.startsWith("/api/v1/profiles/")) {
+      const handle = decodeURIComponent(pathname.slice("/api/v1/profiles/".length));
+      const p = resolveProfile(handle);
+      if (!p || p.hiddenAt) return apiNotFound(res);
+      if (p.handle !== handle) {
+        res.writeHead(301, { Location: `/api/v1/profiles/${encodeURIComponent(p.handle)}` });
+        return res.end();
+      }
+      return sendJson(res, toPublicProfile(p));
+    }
+
+    if (method === "POST" && pathname === "/api/v1/profiles") {
+      const input = await readJsonBody(req);
+      if (!input) return sendJson(res, { error: "invalid_json" }, 400);
+
+      const parsed = parseProfileForm(jsonToFormParams(input));
+      if ("error" in parsed) {
+        return sendJson(res, { error: "invalid_profile", message: parsed.error, fields: parsed.fieldErrors }, 400);
+      }
+
+      const handle = makeUniqueHandle(typeof input.handle === "string" ? input.handle : "", parsed.fields.name);
+      const now = Date.now();
+      const p: Profile = {
+        id: crypto.randomUUID(),
+        handle,
+        ...parsed.fields,
+        createdAt: now,
+        updatedAt: now,
+        editSecret: newEditSecret(),
+      };
+
+      profiles.set(handle, p);
+      saveProfile(p);
+
+      // editSecret を返すのは作成時のこの1回だけ
+      return sendJson(res, { profile: toPublicProfile(p), editSecret: p.editSecret }, 201);
+    }
+
+    if (method === "PATCH" && pathname.startsWith("/api/v1/profiles/")) {
+      const handle = decodeURIComponent(pathname.slice("/api/v1/profiles/".length));
+      const token = bearerToken(req);
+      if (!token) return sendJson(res, { error: "unauthorized" }, 401);
+
+      const p = resolveProfile(handle);
+      if (!p) return apiNotFound(res);
+      if (!matchesEditSecret(p, token)) return sendJson(res, { error: "forbidden" }, 403);
+
+      const input = await readJsonBody(req);
+      if (!input) return sendJson(res, { error: "invalid_json" }, 400);
+
+      const parsed = parseProfileForm(jsonToFormParams(input, p));
+      if ("error" in parsed) {
+        return sendJson(res, { error: "invalid_profile", message: parsed.error, fields: parsed.fieldErrors }, 400);
+      }
+
+      if (typeof input.handle === "string") {
+        const renameError = renameProfile(p, input.handle);
+        if (renameError) return sendJson(res, { error: "invalid_handle", message: renameError }, 409);
+      }
+
+      Object.assign(p, parsed.fields);
+      p.updatedAt = Date.now();
+      saveProfile(p);
+
+      return sendJson(res, toPublicProfile(p));
+    }
+
+    if (method === "GET" && pathname === "/api/v1/tags") {
+      return sendJson(res, apiTags());
+    }
+
+    if (method === "GET" && pathname === "/api/v1/ranking") {
+      return sendJson(res, apiRanking(u.searchParams));
+    }
+
+    if (method === "GET" && pathname === "/ranking") {
+      return sendHtml(res, rankingPage(parseTagOption(u.searchParams.get("tag")), locale));
+    }
+
+    if (pathname === "/admin" || pathname.startsWith("/admin/")) {
+      if (!ADMIN_TOKEN) return notFound(res, locale);
+
+      if (method === "POST" && pathname === "/admin/login") {
+        // 失敗も操作ログに残すので、ログが際限なく増えないよう試行回数も絞る
+        const wait = takeToken("adminLogin", clientIp(req));
+        if (wait) return tooManyRequests(res, false, wait, locale);
+
+        const params = new URLSearchParams(await readBody(req));
+        if (!isValidCsrf(req, params.get("csrf") ?? "")) return invalidCsrf(res, locale);
+        const token = params.get("token") ?? "";
+        if (!matchesAdminToken(token)) {
+          appendAudit(req, "login-failed", null);
+          return sendHtml(res, adminLoginPage(csrfToken(req, res), "トークンが違います。"), 403);
+        }
+        appendAudit(req, "login", null);
+        setCookie(res, "mm_admin", createAdminSession(), ADMIN_COOKIE_MAX_AGE_SEC);
+        res.writeHead(303, { Location: "/admin" });
+        return res.end();
+      }
+
+      if (!isAdmin(req)) return sendHtml(res, adminLoginPage(csrfToken(req, res)), 403);
+
+      if (method === "GET" && pathname === "/admin") {
+        return sendHtml(
+          res,
+          adminPage(u.searchParams.get("q") ?? "", csrfToken(req, res), u.searchParams.get("notice") ?? "")
+        );
+      }
+
+      // cookie でログインしているブラウザからの送信は、他サイトから送らされていないか確かめる
+      const params = method === "POST" ? new URLSearchParams(await readBody(req)) : new URLSearchParams();
+      if (method === "POST" && !isAdminBearer(req) && !isValidCsrf(req, params.get("csrf") ?? "")) {
+        return invalidCsrf(res, locale);
+      }
+
+      if (method === "POST" && pathname === "/admin/logout") {
+        const token = parseCookies(req)["mm_admin"];
+        if (token) adminSessions.delete(hashToken(token));
+        clearCookie(res, "mm_admin");
+        res.writeHead(303, { Location: "/" });
+        return res.end();
+      }
+
+      if (method === "POST" && pathname === "/admin/profiles") {
+        const action = params.get("action") ?? "";
+        const q = params.get("q") ?? "";
+        const p = profiles.get(params.get("handle") ?? "");
+        if (!p) return sendHtml(res, adminPage(q, csrfToken(req, res), "プロフィールが見つかりません。"), 404);
+
+        let notice = "";
+        if (action === "hide") {
+          p.hiddenAt = Date.now();
+          p.hiddenReason = (params.get("reason") ?? "").trim().slice(0, 200) || undefined;
+          saveProfile(p);
+          appendAudit(req, "hide", p, p.hiddenReason);
+          notice = `@${p.handle} を非表示にしました。`;
+        } else if (action === "unhide") {
+          // 確認済みなので通報も消す（残すと次の1件ですぐ非表示に戻る）
+          delete p.hiddenAt;
+          delete p.hiddenReason;
+          delete p.reports;
+          saveProfile(p);
+          appendAudit(req, "unhide", p);
+          notice = `@${p.handle} を再表示しました。`;
+        } else if (action === "clear-reports") {
+          const count = p.reports?.length ?? 0;
+          delete p.reports;
+          saveProfile(p);
+          appendAudit(req, "clear-reports", p, `${count}件`);
+          notice = `@${p.handle} の通報をクリアしました。`;
+        } else if (action === "delete") {
+          profiles.delete(p.handle);
+          revokeSessions(p.handle);
+          removeProfile(p);
+          appendAudit(req, "delete", p, p.name);
+          notice = `@${p.handle} を削除しました。`;
+        } else if (action === "reset-key") {
+          p.editSecret = newEditSecret();
+          revokeSessions(p.handle);
+          saveProfile(p);
+          appendAudit(req, "reset-key", p);
+          // 新しいキーは本人に渡すため、この画面で1度だけ表示する
+          return sendHtml(
+            res,
+            layout(
+              "編集キー再発行",
+              `<div class="card">
+                <h1 style="margin-top:0;">編集キーを再発行しました</h1>
+                <p>@${escapeHtml(p.handle)} の新しい編集キー（本人に /claim で入力してもらってください）：</p>
+                <input readonly value="${escapeHtml(p.editSecret)}" data-select-on-click />
+                <p><a href="/admin?q=${encodeURIComponent(q)}">管理画面へ戻る</a></p>
+              </div>`
+            )
+          );
+        } else {
+          return sendHtml(res, adminPage(q, csrfToken(req, res), "不明な操作です。"), 400);
+        }
+
+        res.writeHead(303, { Location: `/admin?q=${encodeURIComponent(q)}&notice=${encodeURIComponent(notice)}` });
+        return res.end();
+      }
+
+      return notFound(res, locale);
+    }
+
+    if (method === "GET" && pathname === "/makers") {
+      return sendHtml(res, makersPage(parseListQuery(u.searchParams), locale));
+    }
+
+    if (method === "GET" && pathname === "/new") {
+      const mine = getOwnedProfile(req);
+      if (mine) {
+        return sendHtml(
+          res,
+          layout(
+            t(locale, "new.alreadyCreatedTitle"),
+            `<div class="card">
+              <h1 style="margin-top:0;">${t(locale, "new.alreadyCreated")}</h1>
+              <p class="muted">${t(locale, "new.editInstead")}</p>
+              <p><a href="/u/${encodeURIComponent(mine.handle)}">${t(locale, "new.viewMine")}</a></p>
+              <p><a href="/edit">${t(locale, "new.toEdit")}</a></p>
+            </div>`,
+            locale
+          )
+        );
+      }
+
+      return sendHtml(res, newProfilePage(csrfToken(req, res), locale));
+    }
+
+    if (method === "POST" && pathname === "/new") {
+      // ★ 1人1プロフィール（この端末）チェック
+      if (getOwnedProfile(req)) {
+        // すでに作ってるなら新規作成させない（編集へ誘導）
+        res.writeHead(303, { Location: "/edit" });
+        return res.end();
+        // もしくは badRequest(res, "すでにプロフィールを作成しています。編集してください。");
+      }
+
+      const body = await readBody(req);
+      const params = new URLSearchParams(body);
+      if (!isValidCsrf(req, params.get("csrf") ?? "")) return invalidCsrf(res, locale);
+
+      const handleRaw = (params.get("handle") ?? "").trim();
+      const parsed = parseProfileForm(params, locale);
+      if ("error" in parsed) {
+        return sendHtml(res, newProfilePage(csrfToken(req, res), locale, draftFromForm(params), parsed.fieldErrors), 400);
+      }
+
+      const handle = makeUniqueHandle(handleRaw, parsed.fields.name);
+
+      const now = Date.now();
+
+      // ★ 本人確認用 secret を発行
+      const editSecret = newEditSecret();
+
+      const p: Profile = {
+        id: crypto.randomUUID(),
+        handle,
+        ...parsed.fields,
+        createdAt: now,
+        updatedAt: now,
+
+        editSecret, // ★ 追加
+      };
 
       profiles.set(handle, p);
-      saveProfilesSoon();
+      saveProfile(p);
 
       // ★ この端末の「本人」として cookie 保存
       setCookie(res, "mm_handle", handle);
       setCookie(res, "mm_secret", editSecret);
+      setCookie(res, "mm_key_pending", hashToken(editSecret), KEY_PENDING_MAX_AGE_SEC);
 
-      res.writeHead(303, { Location: `/u/${encodeURIComponent(handle)}` });
+      // 作成直後に1度だけ編集キーを見せる
+      res.writeHead(303, { Location: "/key?created=1" });
       return res.end();
     }
 
 
+    if (method === "POST" && pathname.startsWith("/u/") && pathname.endsWith("/report")) {
+      const handle = decodeURIComponent(pathname.slice("/u/".length, -"/report".length));
+      const p = profiles.get(handle);
+      if (!p || p.hiddenAt) return notFound(res, locale);
+
+      const params = new URLSearchParams(await readBody(req));
+      if (!isValidCsrf(req, params.get("csrf") ?? "")) return invalidCsrf(res, locale);
+      const reason = params.get("reason");
+      if (!isReportReason(reason)) return badRequest(res, t(locale, "report.reasonRequired"), locale);
+      const comment = (params.get("comment") ?? "").trim().slice(0, 300);
+
+      // cookie は消せば別人になれるので、接続元 IP で同じ人からの重複通報を数えない
+      const reporter = hashToken(`report:${clientIp(req)}`);
+
+      const reports = p.reports ?? [];
+      const duplicate = reports.some((r) => r.reporter === reporter);
+      if (!duplicate) {
+        reports.push({ at: Date.now(), reason, comment, reporter });
+        p.reports = reports;
+        if (reports.length >= REPORT_HIDE_THRESHOLD) {
+          p.hiddenAt = Date.now();
+          p.hiddenReason = `通報が${reports.length}件に達したため自動で非表示（確認待ち）`;
+          appendAudit(req, "auto-hide", p, p.hiddenReason);
+        }
+        saveProfile(p);
+      }
+
+      return sendHtml(
+        res,
+        layout(
+          t(locale, "report.doneTitle"),
+          `<div class="card">
+            <h1 style="margin-top:0;">${t(locale, duplicate ? "report.duplicate" : "report.received")}</h1>
+            <p class="muted">${t(locale, "report.thanks")}</p>
+            <p><a href="/">${t(locale, "common.backToTop")}</a></p>
+          </div>`,
+          locale
+        )
+      );
+    }
+
+    if (method === "GET" && pathname.startsWith("/embed/u/")) {
+      const handle = decodeURIComponent(pathname.slice("/embed/u/".length));
+      const p = resolveProfile(handle);
+      if (!p || p.hiddenAt) return notFound(res, locale);
+      if (p.handle !== handle) {
+        res.writeHead(301, { Location: `/embed/u/${encodeURIComponent(p.handle)}${u.search}` });
+        return res.end();
+      }
+      allowFraming(res);
+      res.writeHead(200, {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "public, max-age=300",
+        Vary: "Accept-Language, Cookie",
+      });
+      return res.end(embedPage(p, parseEmbedTheme(u.searchParams.get("theme")), locale));
+    }
+
+    if (method === "GET" && pathname === "/robots.txt") {
+      res.writeHead(200, { "Content-Type": "text/plain; charset=utf-8", "Cache-Control": "public, max-age=3600" });
+      return res.end(robotsTxt());
+    }
+
+    if (method === "GET" && (pathname === "/sitemap.xml" || /^\/sitemap-\d+\.xml$/.test(pathname))) {
+      const xml =
+        pathname === "/sitemap.xml" ? sitemapXml() : sitemapPageXml(Number(pathname.slice("/sitemap-".length, -".xml".length)));
+      if (xml === null) return notFound(res, locale);
+      res.writeHead(200, { "Content-Type": "application/xml; charset=utf-8", "Cache-Control": "public, max-age=3600" });
+      return res.end(xml);
+    }
+
+    if (method === "GET" && pathname === "/feed.atom") {
+      const rawTag = u.searchParams.get("tag");
+      const tag = parseTagOption(rawTag);
+      if (rawTag && !tag) return notFound(res, locale);
+      const sort: FeedSort = u.searchParams.get("sort") === "created" ? "created" : "updated";
+
+      const xml = atomFeed(sort, tag, locale);
+      const etag = `"${crypto.createHash("sha256").update(xml).digest("base64url").slice(0, 16)}"`;
+      const headers = { ETag: etag, "Cache-Control": "public, max-age=300", Vary: "Accept-Language, Cookie" };
+      if (req.headers["if-none-match"] === etag) {
+        res.writeHead(304, headers);
+        return res.end();
+      }
+      res.writeHead(200, { ...headers, "Content-Type": "application/atom+xml; charset=utf-8" });
+      return res.end(xml);
+    }
+
+    if (method === "GET" && pathname === "/oembed") {
+      const { status, body } = oembedResponse(u.searchParams);
+      return sendJson(res, body, status);
+    }
+
+    if (method === "GET" && pathname.startsWith("/u/") && /\/card\.(svg|png)$/.test(pathname)) {
+      const format = pathname.endsWith(".png") ? "png" : "svg";
+      const handle = decodeURIComponent(pathname.slice("/u/".length, -`/card.${format}`.length));
+      const p = resolveProfile(handle);
+      if (!p || p.hiddenAt) return notFound(res, locale);
+      if (p.handle !== handle) {
+        res.writeHead(301, { Location: `/u/${encodeURIComponent(p.handle)}/card.${format}` });
+        return res.end();
+      }
+      return sendProfileCard(req, res, p, format);
+    }
+
     if (method === "GET" && pathname.startsWith("/u/")) {
       const handle = decodeURIComponent(pathname.slice("/u/".length));
-      return sendHtml(res, profilePage(handle));
+      const p = resolveProfile(handle);
+      // 非表示なら旧URL からの転送もしない（転送先で今の handle が分かってしまう）
+      if (!p || p.hiddenAt) return sendHtml(res, profileNotFoundPage(locale), 404);
+      if (p.handle !== handle) {
+        // 旧URL は恒久的に新しいURLへ
+        res.writeHead(301, { Location: `/u/${encodeURIComponent(p.handle)}` });
+        return res.end();
+      }
+      return sendHtml(res, profilePage(p, locale, csrfToken(req, res)));
     }
 
-    if (method === "GET" && pathname === "/edit") {
-      const cookies = parseCookies(req);
-      const myHandle = cookies["mm_handle"];
-      const mySecret = cookies["mm_secret"];
+    if (method === "GET" && pathname.startsWith("/c/")) {
+      const raw = decodeURIComponent(pathname.slice("/c/".length));
+      const r = parseSmm2Id(raw);
+      if ("error" in r || r.kind !== "course") return notFound(res, locale);
+      if (r.id !== raw) {
+        // 小文字などで来たら正しい形のURLへ
+        res.writeHead(301, { Location: `/c/${encodeURIComponent(r.id)}` });
+        return res.end();
+      }
+      return sendHtml(res, coursePage(r.id, locale));
+    }
 
-      if (!myHandle || !mySecret) {
-        return sendHtml(res, layout("編集できません", `<div class="card"><p>編集キーが見つかりません（この端末で作成していない可能性があります）。</p><p><a href="/new">新規作成</a></p></div>`), 403);
+    if (method === "GET" && pathname === "/key") {
+      // 編集キーの表示・再発行は編集キーを持っている端末だけ（セッションを盗まれてもキーは漏れない）
+      const p = getKeyOwnedProfile(req);
+      if (!p) {
+        res.writeHead(303, { Location: "/claim" });
+        return res.end();
       }
+      const notice =
+        u.searchParams.get("created") === "1"
+          ? t(locale, "key.created")
+          : u.searchParams.get("password") === "1"
+            ? t(locale, "key.passwordUpdated")
+            : "";
+      // キーを見せるのは、作成・作り直しで置いた cookie が今のキーと合っている最初の1回だけ
+      const pending = parseCookies(req)["mm_key_pending"];
+      const reveal = !!pending && pending === hashToken(p.editSecret);
+      if (pending) clearCookie(res, "mm_key_pending");
+      return sendHtml(res, editKeyPage(p, notice, csrfToken(req, res), locale, reveal));
+    }
+
+    if (method === "POST" && pathname === "/key/rotate") {
+      const p = getKeyOwnedProfile(req);
+      if (!p) return forbidden(res, locale);
+
+      const params = new URLSearchParams(await readBody(req));
+      if (!isValidCsrf(req, params.get("csrf") ?? "")) return invalidCsrf(res, locale);
+
+      // 古いキーはこの時点で無効（他の端末の cookie も使えなくなる）
+      p.editSecret = newEditSecret();
+      saveProfile(p);
+      setCookie(res, "mm_secret", p.editSecret);
+      setCookie(res, "mm_key_pending", hashToken(p.editSecret), KEY_PENDING_MAX_AGE_SEC);
 
-      const p = profiles.get(myHandle);
-      if (!p || p.editSecret !== mySecret) {
-        return sendHtml(res, layout("編集できません", `<div class="card"><p>プロフィールがありません。</p></div>`), 403);
+      res.writeHead(303, { Location: "/key" });
+      return res.end();
+    }
+
+    if (method === "GET" && pathname === "/claim") {
+      return sendHtml(res, claimPage(locale, csrfToken(req, res), u.searchParams.get("handle") ?? ""));
+    }
+
+    if (method === "POST" && pathname === "/claim") {
+      const wait = takeToken("login", clientIp(req));
+      if (wait) return tooManyRequests(res, false, wait, locale);
+
+      const body = await readBody(req);
+      const params = new URLSearchParams(body);
+      if (!isValidCsrf(req, params.get("csrf") ?? "")) return invalidCsrf(res, locale);
+
+      const handle = toHandle(params.get("handle") ?? "");
+      const key = (params.get("key") ?? "").trim();
+
+      const p = resolveProfile(handle);
+      if (!isValidSecret(key) || !p || !matchesEditSecret(p, key)) {
+        return sendHtml(res, claimPage(locale, csrfToken(req, res), handle, t(locale, "claim.invalid")), 403);
       }
 
-      return sendHtml(res, editProfilePage(p));
+      setCookie(res, "mm_handle", p.handle);
+      setCookie(res, "mm_secret", p.editSecret);
+
+      res.writeHead(303, { Location: "/edit" });
+      return res.end();
     }
 
-    if (method === "POST" && pathname === "/edit") {
-      const cookies = parseCookies(req);
-      const myHandle = cookies["mm_handle"];
-      const mySecret = cookies["mm_secret"];
+    if (method === "POST" && pathname === "/password") {
+      const p = getKeyOwnedProfile(req);
+      if (!p) return forbidden(res, locale);
 
-      if (!myHandle || !mySecret) {
-        return sendHtml(res, layout("編集できません", `<p>権限がありません。</p>`), 403);
+      const body = await readBody(req);
+      const params = new URLSearchParams(body);
+      if (!isValidCsrf(req, params.get("csrf") ?? "")) return invalidCsrf(res, locale);
+
+      if (params.get("remove") === "1") {
+        delete p.passwordHash;
+      } else {
+        const password = params.get("password") ?? "";
+        if (password.length < 8 || password.length > 128) {
+          return badRequest(res, t(locale, "key.passwordLength"), locale);
+        }
+        if (password !== params.get("password2")) return badRequest(res, t(locale, "key.passwordMismatch"), locale);
+        p.passwordHash = await hashPassword(password);
       }
+      saveProfile(p);
 
-      const p = profiles.get(myHandle);
-      if (!p || p.editSecret !== mySecret) {
-        return sendHtml(res, layout("編集できません", `<p>権限がありません。</p>`), 403);
+      // パスワードが変わったらログイン中の端末はすべてログアウト
+      revokeSessions(p.handle);
+
+      res.writeHead(303, { Location: "/key?password=1" });
+      return res.end();
+    }
+
+    if (method === "GET" && pathname === "/login") {
+      return sendHtml(res, loginPage(locale, csrfToken(req, res), u.searchParams.get("handle") ?? ""));
+    }
+
+    if (method === "POST" && pathname === "/login") {
+      const wait = takeToken("login", clientIp(req));
+      if (wait) return tooManyRequests(res, false, wait, locale);
+
+      const body = await readBody(req);
+      const params = new URLSearchParams(body);
+      if (!isValidCsrf(req, params.get("csrf") ?? "")) return invalidCsrf(res, locale);
+
+      const handle = toHandle(params.get("handle") ?? "");
+      const password = params.get("password") ?? "";
+
+      const p = resolveProfile(handle);
+      const ok = !!p?.passwordHash && password.length <= 128 && (await verifyPassword(password, p.passwordHash));
+      if (!p || !ok) {
+        return sendHtml(res, loginPage(locale, csrfToken(req, res), handle, t(locale, "login.invalid")), 403);
       }
 
+      const token = createSession(p.handle, req.headers["user-agent"] ?? "");
+      setCookie(res, "mm_session", token, SESSION_TTL_MS / 1000);
+
+      res.writeHead(303, { Location: "/edit" });
+      return res.end();
+    }
+
+    if (method === "POST" && pathname === "/logout") {
+      const params = new URLSearchParams(await readBody(req));
+      if (!isValidCsrf(req, params.get("csrf") ?? "")) return invalidCsrf(res, locale);
+
+      const s = getSession(req);
+      if (s) revokeSessions(s.handle, s.id);
+      clearCookie(res, "mm_session");
+
+      res.writeHead(303, { Location: "/" });
+      return res.end();
+    }
+
+    if (method === "POST" && pathname === "/sessions/revoke") {
+      const p = getOwnedProfile(req);
+      if (!p) return forbidden(res, locale);
+
+      const body = await readBody(req);
+      const params = new URLSearchParams(body);
+      if (!isValidCsrf(req, params.get("csrf") ?? "")) return invalidCsrf(res, locale);
+      const id = params.get("id") ?? "";
+      if (id === "all") revokeSessions(p.handle);
+      else if (id) revokeSessions(p.handle, id);
+
+      res.writeHead(303, { Location: "/edit" });
+      return res.end();
+    }
+
+    if (method === "GET" && pathname === "/export") {
+      const p = getOwnedProfile(req);
+      if (!p) return forbidden(res, locale);
+
+      res.writeHead(200, {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="smm2-profile-${p.handle}.json"`,
+        "Cache-Control": "no-store",
+      });
+      return res.end(JSON.stringify(toPublicProfile(p), null, 2));
+    }
+
+    if (method === "GET" && pathname === "/delete") {
+      const p = getOwnedProfile(req);
+      if (!p) return forbidden(res, locale);
+      return sendHtml(res, deleteConfirmPage(p, csrfToken(req, res), locale));
+    }
+
+    if (method === "POST" && pathname === "/delete") {
+      const p = getOwnedProfile(req);
+      if (!p) return forbidden(res, locale);
+
       const body = await readBody(req);
       const params = new URLSearchParams(body);
+      if (!isValidCsrf(req, params.get("csrf") ?? "")) return invalidCsrf(res, locale);
+      if ((params.get("confirm") ?? "").trim() !== p.handle) {
+        return sendHtml(res, deleteConfirmPage(p, csrfToken(req, res), locale, t(locale, "delete.mismatch")), 400);
+      }
+
+      profiles.delete(p.handle);
+      revokeSessions(p.handle);
+      removeProfile(p);
+
+      clearCookie(res, "mm_handle");
+      clearCookie(res, "mm_secret");
+      clearCookie(res, "mm_session");
+
+      return sendHtml(
+        res,
+        layout(
+          t(locale, "delete.doneTitle"),
+          `<div class="card"><h1 style="margin-top:0;">${t(locale, "delete.done")}</h1><p class="muted">${t(locale, "delete.thanks")}</p><p><a href="/">${t(locale, "common.backToTop")}</a></p></div>`,
+          locale
+        )
+      );
+    }
 
-      const name = (params.get("name") ?? "").trim();
+    if (method === "GET" && pathname === "/edit") {
+      const p = getOwnedProfile(req);
+      if (!p) {
+        return sendHtml(
+          res,
+          layout(
+            t(locale, "error.forbiddenTitle"),
+            `<div class="card"><p>${t(locale, "edit.notOwner")}</p><p>${t(locale, "edit.notOwnerLinks")}</p></div>`,
+            locale
+          ),
+          403
+        );
+      }
 
-      const makerIdRaw = (params.get("makerId") ?? "").trim();
-      const makerId = normalizeMakerId(makerIdRaw);
+      return sendHtml(res, editProfilePage(p, getSession(req), csrfToken(req, res), locale));
+    }
 
-      // ★ これが必須（あなたの貼ったコードに無い）
-      const bio = (params.get("bio") ?? "").trim();
-      const tags = parseSelectedTags(params);
+    if (method === "POST" && pathname === "/edit") {
+      const p = getOwnedProfile(req);
+      if (!p) return forbidden(res, locale);
 
-      if (!name) return badRequest(res, "表示名が必要です。");
-      if (!makerId) return badRequest(res, "職人IDが必要です。");
-      if (!isValidMakerId(makerId)) {
-        return badRequest(res, "職人IDの形式が正しくありません。例: ABC-123-DEF");
+      const body = await readBody(req);
+      const params = new URLSearchParams(body);
+      if (!isValidCsrf(req, params.get("csrf") ?? "")) return invalidCsrf(res, locale);
+
+      const parsed = parseProfileForm(params, locale);
+      if ("error" in parsed) {
+        return sendHtml(
+          res,
+          editProfilePage(p, getSession(req), csrfToken(req, res), locale, draftFromForm(params), parsed.fieldErrors),
+          400
+        );
       }
 
-      const top10: TopCourse[] = [];
-      for (let i = 1; i <= 10; i++) {
-        const title = (params.get(`c_title_${i}`) ?? "").trim();
-        const courseId = normalizeCourseId(params.get(`c_id_${i}`) ?? "");
-        const note = (params.get(`c_note_${i}`) ?? "").trim();
-        if (title || courseId || note) top10.push({ title, courseId, note: note || undefined });
+      const keyOwner = getKeyOwnedProfile(req) === p;
+      const renameError = renameProfile(p, params.get("handle") ?? p.handle, locale);
+      if (renameError) {
+        return sendHtml(
+          res,
+          editProfilePage(p, getSession(req), csrfToken(req, res), locale, draftFromForm(params), { handle: renameError }),
+          400
+        );
       }
+      if (keyOwner) setCookie(res, "mm_handle", p.handle);
 
-      p.name = name.slice(0, 40);
-      p.makerId = makerId.slice(0, 20);
-      p.bio = bio.slice(0, 300);
-      p.tags = tags;
-      p.top10 = top10;
+      Object.assign(p, parsed.fields);
       p.updatedAt = Date.now();
-      saveProfilesSoon();
+      saveProfile(p);
 
       res.writeHead(303, { Location: `/u/${encodeURIComponent(p.handle)}` });
       return res.end();
     }
 
 
-    return notFound(res);
+    return notFound(res, locale);
   } catch (err: any) {
+    if (err instanceof PayloadTooLargeError) {
+      // 残りの本文は読まないので、この接続は使い回さない
+      res.setHeader("Connection", "close");
+      if ((req.url ?? "").startsWith("/api/")) {
+        return sendJson(res, { error: "payload_too_large", message: err.message }, 413);
+      }
+      return sendHtml(
+        res,
+        layout(
+          t(locale, "error.tooLargeTitle"),
+          `<p>${t(locale, "error.tooLarge")}</p><p><a href="/">${t(locale, "common.backToTop")}</a></p>`,
+          locale
+        ),
+        413
+      );
+    }
+    if ((req.url ?? "").startsWith("/api/")) {
+      return sendJson(res, { error: "internal_error", message: String(err?.message ?? err) }, 500);
+    }
     return sendHtml(
       res,
-      layout("サーバエラー", `<p style="color:#c00;">${escapeHtml(String(err?.message ?? err))}</p><p><a href="/">トップへ</a></p>`),
+      layout(
+        t(locale, "error.serverTitle"),
+        `<p style="color:#c00;">${escapeHtml(String(err?.message ?? err))}</p><p><a href="/">${t(locale, "common.backToTop")}</a></p>`,
+        locale
+      ),
       500
     );
   }
 });
 
-function editProfilePage(p: Profile): string {
+function editProfilePage(
+  p: Profile,
+  current: Session | null,
+  csrf: string,
+  locale: Locale,
+  d: ProfileDraft = draftFromProfile(p),
+  errors: FieldErrors = {}
+): string {
+  const activeSessions = sessionsFor(p.handle);
+  const sessionItems = activeSessions
+    .map(
+      (s) => `<li>
+        ${s.userAgent ? escapeHtml(s.userAgent) : t(locale, "edit.unknownDevice")}
+        <span class="muted small">${t(locale, "edit.since", { date: formatDateTime(s.createdAt, locale) })}</span>
+        ${s.id === current?.id ? `<strong class="small">${t(locale, "edit.thisDevice")}</strong>` : ""}
+        <form method="POST" action="/sessions/revoke" style="display:inline;">
+          ${csrfField(csrf)}
+          <input type="hidden" name="id" value="${escapeHtml(s.id)}" />
+          <button type="submit">${t(locale, "edit.revoke")}</button>
+        </form>
+      </li>`
+    )
+    .join("");
+
   return layout(
-    "プロフィール編集",
+    t(locale, "edit.title"),
     `
 <div class="card">
-  <h1 style="margin-top:0;">プロフィール編集</h1>
-  <p class="muted">自分のプロフィールだけ編集できます。</p>
+  <h1 style="margin-top:0;">${t(locale, "edit.title")}</h1>
+  <p class="muted">${t(locale, "edit.lead")}</p>
 
   <form method="POST" action="/edit">
-    <label>表示名</label>
-    <input name="name" required maxlength="40" value="${escapeHtml(p.name)}" />
+    ${csrfField(csrf)}
+    <label>${t(locale, "edit.name")}</label>
+    <input name="name" required maxlength="40" value="${escapeHtml(d.name)}" />
+    ${fieldError(errors, "name")}
+
+    <label>${t(locale, "edit.handle")}</label>
+    <input name="handle" required maxlength="32" value="${escapeHtml(d.handle)}" />
+    <div class="small muted">${t(locale, "edit.handleHint", { handle: escapeHtml(p.handle) })}</div>
+    ${fieldError(errors, "handle")}
 
-    <label>ID</label>
-    <input name="makerId" required maxlength="20" value="${escapeHtml(p.makerId)}" />
+    <label>${t(locale, "edit.makerId")}</label>
+    <input name="makerId" required maxlength="20" value="${escapeHtml(d.makerId)}" />
+    ${fieldError(errors, "makerId")}
 
-    <label>自己紹介（任意）</label>
-    <textarea name="bio" maxlength="300">${escapeHtml(p.bio)}</textarea>
+    <label>${t(locale, "form.bio")}</label>
+    <textarea name="bio" maxlength="300">${escapeHtml(d.bio)}</textarea>
 
-    <label>タグ（最大2つ）</label>
+    <label>${t(locale, "edit.tags")}</label>
     <div class="taggrid">
-      ${TAG_OPTIONS.map(t => {
-        const checked = p.tags.includes(t) ? "checked" : "";
+      ${TAG_OPTIONS.map(tag => {
+        const checked = d.tags.includes(tag) ? "checked" : "";
         return `
           <label class="tagcheck">
-            <input type="checkbox" name="tags" value="${escapeHtml(t)}" ${checked}/>
-            <span>${escapeHtml(t)}</span>
+            <input type="checkbox" name="tags" value="${escapeHtml(tag)}" ${checked}/>
+            <span>${escapeHtml(tagLabel(tag, locale))}</span>
           </label>
         `;
       }).join("")}
     </div>
-    <div class="taghint">※ 最大2つまで選べます</div>
-
-    <script>
-      (function () {
-        const boxes = Array.from(document.querySelectorAll('input[name="tags"]'));
-        function enforce(){
-          const checked = boxes.filter(b => b.checked);
-          if (checked.length >= 2){
-            boxes.forEach(b => { if (!b.checked) b.disabled = true; });
-          }else{
-            boxes.forEach(b => { b.disabled = false; });
-          }
-        }
-        boxes.forEach(b => b.addEventListener("change", enforce));
-        enforce();
-      })();
-    </script>
+    <div class="taghint">${t(locale, "form.tagHint")}</div>
 
     <hr style="opacity:.3; margin:16px 0;" />
-    <div><strong>${escapeHtml(p.name)}のお気に入りのコース</strong></div>
+    <div><strong>${t(locale, "profile.favorites", { name: escapeHtml(p.name) })}</strong></div>
 
     ${Array.from({ length: 10 }).map((_, i) => {
       const n = i + 1;
-      const c = p.top10[i] ?? { title:"", courseId:"", note:"" };
+      const c = d.top10[i] ?? { title:"", courseId:"", note:"" };
       return `
       <div class="card" style="margin-top:10px;">
         <div class="muted small">#${n}</div>
-        <label>コース名</label>
+        <label>${t(locale, "form.courseTitle")}</label>
         <input name="c_title_${n}" maxlength="60" value="${escapeHtml(c.title ?? "")}" />
-        <label>コースID</label>
+        <label>${t(locale, "form.courseId")}</label>
         <input name="c_id_${n}" maxlength="20" value="${escapeHtml(c.courseId ?? "")}" />
-        <label>ひとこと</label>
+        ${fieldError(errors, `c_id_${n}`)}
+        <label>${t(locale, "edit.courseNote")}</label>
         <input name="c_note_${n}" maxlength="80" value="${escapeHtml(c.note ?? "")}" />
       </div>`;
     }).join("")}
 
     <div style="margin-top:14px;">
-      <button type="submit">更新する</button>
-      <a class="muted" style="margin-left:10px;" href="/u/${encodeURIComponent(p.handle)}">キャンセル</a>
+      <button type="submit">${t(locale, "edit.submit")}</button>
+      <a class="muted" style="margin-left:10px;" href="/u/${encodeURIComponent(p.handle)}">${t(locale, "edit.cancel")}</a>
     </div>
   </form>
+
+  <hr style="opacity:.3; margin:16px 0;" />
+  <p class="muted small">${t(locale, "edit.otherDevices")}</p>
+
+  <h3>${t(locale, "edit.sessions")}</h3>
+  ${
+    activeSessions.length
+      ? `<ul>${sessionItems}</ul>
+  <form method="POST" action="/sessions/revoke">
+    ${csrfField(csrf)}
+    <input type="hidden" name="id" value="all" />
+    <button type="submit">${t(locale, "edit.revokeAll")}</button>
+  </form>`
+      : `<p class="muted small">${t(locale, "edit.noSessions")}</p>`
+  }
+
+  <h3>${t(locale, "edit.data")}</h3>
+  <p class="small">
+    <a href="/export">${t(locale, "edit.export")}</a>
+    <span class="muted"> · </span>
+    <a href="/delete" style="color:#c00;">${t(locale, "edit.delete")}</a>
+  </p>
+  ${
+    current
+      ? `<form method="POST" action="/logout" style="margin-top:10px;">
+    ${csrfField(csrf)}
+    <button type="submit">${t(locale, "edit.logout")}</button>
+  </form>`
+      : ""
+  }
 </div>
-`
+`,
+    locale
   );
 }
 
-server.listen(PORT, () => {
-  console.log(`SMM2 Profile Maker running: http://localhost:${PORT}`);
-});
+/** ---------- Shutdown ---------- */
+
+let shuttingDown = false;
+const SHUTDOWN_TIMEOUT_MS = 10_000;
+
+function flushPendingWrites() {
+  try {
+    store.flush();
+  } catch (e) {
+    console.error("Failed to flush profiles:", e);
+  }
+  try {
+    flushSessions();
+  } catch (e) {
+    console.error("Failed to flush sessions:", e);
+  }
+}
+
+// 新しい接続を止め、処理中のリクエストが終わるのを待ってから、保存待ちを書き出して終了
+function shutdown(signal: string) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`${signal} received, shutting down...`);
+
+  setTimeout(() => {
+    console.error("Shutdown timed out, closing remaining connections");
+    server.closeAllConnections();
+  }, SHUTDOWN_TIMEOUT_MS).unref();
+
+  server.close(() => {
+    flushPendingWrites();
+    fs.rmSync(PID_FILE, { force: true });
+    process.exit(0);
+  });
+  server.closeIdleConnections();
+}
+
+/** ---------- Admin CLI ---------- */
+
+const ADMIN_USAGE = `Usage: node dist/index.js admin <command> [options]
+
+Commands:
+  backup [--out FILE]                   Write a timestamped snapshot (default: DATA_DIR/backups/)
+  restore FILE                          Replace all profiles with FILE (current data is backed up first)
+  export [--format json|csv] [--courses] [--strip-secrets] [--out FILE]
+                                        Print profiles (or one row per course with --courses)
+  import FILE                           Merge another instance's dump; clashing handles get renamed
+
+restore / import rewrite the data files, so stop the server first (they refuse to run while it is up).`;
+
+type CliOptions = { args: string[]; flags: Map<string, string | true> };
+
+function parseCliOptions(argv: string[]): CliOptions {
+  const args: string[] = [];
+  const flags = new Map<string, string | true>();
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (!a.startsWith("--")) {
+      args.push(a);
+      continue;
+    }
+    const name = a.slice(2);
+    const next = argv[i + 1];
+    if (["out", "format"].includes(name) && next !== undefined) {
+      flags.set(name, next);
+      i++;
+    } else {
+      flags.set(name, true);
+    }
+  }
+  return { args, flags };
+}
+
+function snapshotJson(list: (Profile | PublicProfile)[]): string {
+  return JSON.stringify({ version: SCHEMA_VERSION, profiles: list }, null, 2) + "\n";
+}
+
+// 表計算ソフトで開いたときに数式として解釈されないよう、先頭の = + - @ は ' でエスケープ
+function csvCell(v: unknown): string {
+  let text = v === undefined || v === null ? "" : String(v);
+  if (/^[=+\-@]/.test(text)) text = "'" + text;
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+function toCsv(rows: unknown[][]): string {
+  return rows.map((r) => r.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+function profilesCsv(list: Profile[], withSecrets: boolean): string {
+  const header = ["handle", "name", "makerId", "bio", "tags", "courses", "createdAt", "updatedAt"];
+  if (withSecrets) header.push("editSecret");
+  const rows = list.map((p) => {
+    const row: unknown[] = [
+      p.handle,
+      p.name,
+      p.makerId,
+      p.bio,
+      p.tags.join(" "),
+      p.top10.length,
+      new Date(p.createdAt).toISOString(),
+      new Date(p.updatedAt).toISOString(),
+    ];
+    if (withSecrets) row.push(p.editSecret);
+    return row;
+  });
+  return toCsv([header, ...rows]);
+}
+
+function coursesCsv(list: Profile[]): string {
+  const rows = list.flatMap((p) =>
+    rankedTop10(p).map((c, idx) => [p.handle, p.name, idx + 1, c.courseId, c.title, c.note ?? ""])
+  );
+  return toCsv([["handle", "name", "rank", "courseId", "title", "note"], ...rows]);
+}
+
+function writeOutput(text: string, out: string | true | undefined) {
+  if (typeof out === "string") {
+    fs.writeFileSync(out, text, "utf8");
+    console.error(`Wrote ${out}`);
+  } else {
+    process.stdout.write(text);
+  }
+}
+
+function backupFileName(): string {
+  return `profiles-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+}
+
+function writeBackup(out?: string): string {
+  const file = out ?? path.join(DATA_DIR, "backups", backupFileName());
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, snapshotJson(serializeProfiles()), "utf8");
+  return file;
+}
+
+// ダンプ（{ version, profiles } でも素の配列でも）を今の版の Profile にして返す
+function readDump(file: string, fillSecrets: boolean): Profile[] {
+  const stored = readSnapshot(file);
+  if (!stored) throw new Error(`${file} not found`);
+  // --strip-secrets で書き出したダンプには editSecret が無いので、新しく発行する
+  const records = fillSecrets
+    ? stored.profiles.map((r) => (isRecord(r) && !r.editSecret ? { ...r, editSecret: newEditSecret() } : r))
+    : stored.profiles;
+  return upgradeProfiles(records, stored.version, file);
+}
+
+// 先に lock を置いてからサーバの pid を見る（サーバは pid を置いてから lock を見る）ので、
+// 同時に動き出してもどちらかが必ず相手に気づく
+function withAdminLock<T>(fn: () => T): T {
+  try {
+    fs.writeFileSync(ADMIN_LOCK_FILE, String(process.pid), { flag: "wx" });
+  } catch (e: any) {
+    if (e?.code !== "EEXIST") throw e;
+    const owner = livePid(ADMIN_LOCK_FILE);
+    if (owner) throw new Error(`Another admin command is running (pid ${owner}).`);
+    fs.writeFileSync(ADMIN_LOCK_FILE, String(process.pid)); // 落ちた CLI の残骸
+  }
+  try {
+    const pid = runningServerPid();
+    if (pid) throw new Error(`The server is running (pid ${pid}). Stop it first.`);
+    return fn();
+  } finally {
+    fs.rmSync(ADMIN_LOCK_FILE, { force: true });
+  }
+}
+
+// 取り込み：同じ id は新しい方を残し、handle がぶつかったら makeUniqueHandle で別名にする
+function importProfiles(incoming: Profile[]) {
+  const summary = { added: 0, updated: 0, skipped: 0, renamed: [] as string[] };
+  const byId = new Map(Array.from(profiles.values()).map((p) => [p.id, p]));
+
+  for (const p of incoming) {
+    const existing = byId.get(p.id);
+    if (existing) {
+      if (p.updatedAt <= existing.updatedAt) {
+        summary.skipped++;
+        continue;
+      }
+      profiles.delete(existing.handle);
+      summary.updated++;
+    } else {
+      summary.added++;
+    }
+
+    if (isHandleTaken(p.handle)) {
+      const next = makeUniqueHandle(p.handle, p.name);
+      summary.renamed.push(`${p.handle} -> ${next}`);
+      p.handle = next;
+    }
+    p.oldHandles = p.oldHandles?.filter((h) => !isHandleTaken(h));
+    profiles.set(p.handle, p);
+    byId.set(p.id, p);
+  }
+  return summary;
+}
+
+function runAdminCli(argv: string[]): number {
+  const [command, ...rest] = argv;
+  const { args, flags } = parseCliOptions(rest);
+
+  try {
+    // backup / export は読むだけなので、読めないレコードがあっても退避ファイルは書かない
+    const writes = command === "restore" || command === "import";
+    hydrateProfiles(readProfilesFromStore(writes) ?? []);
+
+    switch (command) {
+      case "backup": {
+        const out = flags.get("out");
+        const file = writeBackup(typeof out === "string" ? out : undefined);
+        console.log(`Backed up ${profiles.size} profile(s) to ${file}`);
+        return 0;
+      }
+
+      case "export": {
+        const list = serializeProfiles();
+        const withSecrets = !flags.has("strip-secrets");
+        const format = flags.get("format") ?? "json";
+        if (format === "json") {
+          writeOutput(snapshotJson(withSecrets ? list : list.map(toPublicProfile)), flags.get("out"));
+        } else if (format === "csv") {
+          writeOutput(flags.has("courses") ? coursesCsv(list) : profilesCsv(list, withSecrets), flags.get("out"));
+        } else {
+          throw new Error(`Unknown format: ${format}`);
+        }
+        return 0;
+      }
+
+      case "restore": {
+        if (!args[0]) throw new Error("restore needs a FILE");
+        return withAdminLock(() => {
+          const restored = readDump(args[0], false);
+          const backup = writeBackup();
+          console.log(`Backed up current ${profiles.size} profile(s) to ${backup}`);
+          hydrateProfiles(restored);
+          store.compact();
+          console.log(`Restored ${profiles.size} profile(s) from ${args[0]}`);
+          return 0;
+        });
+      }
+
+      case "import": {
+        if (!args[0]) throw new Error("import needs a FILE");
+        return withAdminLock(() => {
+          const incoming = readDump(args[0], true);
+          const backup = writeBackup();
+          console.log(`Backed up current ${profiles.size} profile(s) to ${backup}`);
+          const summary = importProfiles(incoming);
+          store.compact();
+          console.log(`Imported from ${args[0]}: ${summary.added} added, ${summary.updated} updated, ${summary.skipped} skipped`);
+          for (const r of summary.renamed) console.log(`  renamed ${r}`);
+          return 0;
+        });
+      }
+
+      default:
+        console.error(ADMIN_USAGE);
+        return command ? 1 : 0;
+    }
+  } catch (e: any) {
+    console.error(`admin ${command}: ${String(e?.message ?? e)}`);
+    return 1;
+  }
+}
+
+/** ---------- Startup ---------- */
+
+function startServer() {
+  // 起動時にディスクから復元。無ければサンプル投入（任意）
+  // 管理 CLI が restore / import している最中なら、終わるまで起動しない
+  fs.writeFileSync(PID_FILE, String(process.pid), "utf8");
+  const adminPid = livePid(ADMIN_LOCK_FILE);
+  if (adminPid) {
+    fs.rmSync(PID_FILE, { force: true });
+    console.error(`An admin command is rewriting ${DATA_DIR} (pid ${adminPid}). Start the server after it finishes.`);
+    process.exit(1);
+  }
+
+  loadSessionsFromDisk();
+  const loaded = loadProfilesFromStore();
+  if (!loaded) {
+    const sample = seedExample(); // いらなければ消してOK
+    saveProfile(sample); // 初回のサンプルも保存しておく
+  }
+  rebuildSearchIndex();
+
+  server.listen(PORT, () => {
+    console.log(`SMM2 Profile Maker running: http://localhost:${PORT}`);
+  });
+
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+  process.on("SIGINT", () => shutdown("SIGINT"));
+}
+
+const cliArgs = process.argv.slice(2);
+if (cliArgs[0] === "admin") {
+  process.exitCode = runAdminCli(cliArgs.slice(1));
+} else {
+  startServer();
+}